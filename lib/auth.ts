@@ -0,0 +1,113 @@
+import type { AuthConfig, AuthCredentials, MaybePromise } from './types.js'
+import { FetchesResponseError } from './errors.js'
+
+export interface AppliedAuth {
+  url: string
+  headers: Headers
+  version: number
+  sensitiveHeaders: string[]
+  sensitiveQuery: string[]
+}
+
+function encodeBasic(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`)
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function isUnauthorized(error: Error): boolean {
+  return error instanceof FetchesResponseError && error.response.status === 401
+}
+
+// Adds credentials to outgoing requests and renews them when the server
+// rejects them. Failures that arrive together share a single refresh, and
+// requests started while it runs wait for the new credentials.
+export class AuthManager {
+  private readonly config: AuthConfig
+  private readonly provider?: () => MaybePromise<AuthCredentials | undefined>
+  private credentials?: AuthCredentials
+  private refreshing?: { version: number, promise: Promise<void> }
+  // Bumped whenever the credentials change, so a request that failed with
+  // credentials that were already replaced is replayed without refreshing.
+  private version = 0
+
+  constructor(config: AuthConfig = {}) {
+    this.config = config
+
+    if (typeof config.credentials === 'function') {
+      this.provider = config.credentials
+    }
+    else {
+      this.credentials = config.credentials
+    }
+  }
+
+  setCredentials(credentials: AuthCredentials | undefined): void {
+    this.credentials = credentials
+    this.version++
+  }
+
+  clear(): void {
+    this.setCredentials(undefined)
+  }
+
+  async apply(url: string, headersInit?: HeadersInit): Promise<AppliedAuth> {
+    await this.refreshing?.promise.catch(() => {})
+
+    const version = this.version
+    const credentials = this.credentials ?? await this.provider?.()
+    const headers = new Headers(headersInit)
+    const sensitiveHeaders: string[] = []
+    const sensitiveQuery: string[] = []
+
+    switch (credentials?.type) {
+      case 'bearer':
+        headers.set('Authorization', `Bearer ${credentials.token}`)
+        sensitiveHeaders.push('authorization')
+        break
+      case 'basic':
+        headers.set('Authorization', `Basic ${encodeBasic(credentials.username, credentials.password)}`)
+        sensitiveHeaders.push('authorization')
+        break
+      case 'apiKey':
+        if (credentials.in === 'query') {
+          const query = `${encodeURIComponent(credentials.name)}=${encodeURIComponent(credentials.value)}`
+          url += (url.includes('?') ? '&' : '?') + query
+          sensitiveQuery.push(credentials.name)
+        }
+        else {
+          headers.set(credentials.name, credentials.value)
+          sensitiveHeaders.push(credentials.name.toLowerCase())
+        }
+        break
+    }
+
+    return { url, headers, version, sensitiveHeaders, sensitiveQuery }
+  }
+
+  canRefresh(error: Error): boolean {
+    return this.config.refresh !== undefined && (this.config.shouldRefresh ?? isUnauthorized)(error)
+  }
+
+  // Resolves once credentials newer than `version` are in place. A failed
+  // refresh is not repeated until the credentials are set again, so requests
+  // still holding the rejected ones fail without calling `refresh` each time.
+  refresh(version: number, error: Error): Promise<void> {
+    if (version !== this.version)
+      return Promise.resolve()
+
+    if (this.refreshing?.version !== version) {
+      this.refreshing = { version, promise: this.runRefresh(error) }
+    }
+    return this.refreshing.promise
+  }
+
+  private async runRefresh(error: Error): Promise<void> {
+    try {
+      this.setCredentials(await this.config.refresh!(error))
+    }
+    catch (refreshError) {
+      this.config.onRefreshFailure?.(refreshError)
+      throw refreshError
+    }
+  }
+}
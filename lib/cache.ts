@@ -1,112 +1,253 @@
-import type { CacheEntry } from './types.js'
+import type { CacheEntry, CacheStorageAdapter, FetchesResponse, RequestConfig, SerializedResponse } from './types.js'
+import { mergeRevalidatedHeaders, varyMatches } from './http-cache.js'
+import { MemoryCacheStorage } from './storage/memory.js'
+
+// Expired entries are kept this long for strategies that serve them stale,
+// which can also be chosen per request.
+const DEFAULT_MAX_STALE = 24 * 60 * 60 * 1000
+
+export function serializeResponse<T>(response: FetchesResponse<T>): SerializedResponse<T> {
+  return {
+    data: response.data,
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+  }
+}
+
+export function deserializeResponse<T>(serialized: SerializedResponse<T>, config: RequestConfig): FetchesResponse<T> {
+  return {
+    data: serialized.data,
+    status: serialized.status,
+    statusText: serialized.statusText,
+    headers: new Headers(serialized.headers),
+    config,
+  }
+}
+
+// Keys start with `METHOD:url:`. The URL has to match exactly or up to a
+// path segment or query boundary.
+function matchesUrl(key: string, url: string): boolean {
+  const keyUrl = key.slice(key.indexOf(':') + 1)
+  if (!keyUrl.startsWith(url))
+    return false
+
+  const next = keyUrl[url.length]
+  return url.endsWith('/') || next === undefined || next === ':' || next === '/' || next === '?'
+}
+
+export interface CacheSetOptions {
+  vary?: Record<string, string | null>
+  revalidatable?: boolean
+  tags?: string[]
+}
+
+export interface CacheLookup<T> {
+  response: FetchesResponse<T>
+  fresh: boolean
+  revalidatable: boolean
+}
+
+interface IndexEntry {
+  expiresAt: number
+  revalidatable: boolean
+  tags: string[]
+}
 
 export class RequestCache {
-  private readonly cache: Map<string, CacheEntry<unknown>>
+  private readonly storage: CacheStorageAdapter
   private readonly maxSize: number
-  private readonly keyOrder: string[]
-
-  constructor(maxSize: number = 100) {
-    this.cache = new Map()
+  private readonly maxStale: number
+  private index?: Promise<Map<string, IndexEntry>>
+
+  constructor(
+    maxSize: number = 100,
+    storage: CacheStorageAdapter = new MemoryCacheStorage(),
+    maxStale: number = DEFAULT_MAX_STALE,
+  ) {
+    this.storage = storage
     this.maxSize = maxSize
-    this.keyOrder = []
+    this.maxStale = maxStale
   }
 
-  set(key: string, value: unknown, ttl: number): void {
-    this.removeExpiredEntries()
-
-    if (this.cache.has(key)) {
-      const index = this.keyOrder.indexOf(key)
-      if (index > -1) {
-        this.keyOrder.splice(index, 1)
+  async set<T>(
+    key: string,
+    response: FetchesResponse<T>,
+    ttl: number,
+    options: CacheSetOptions = {},
+  ): Promise<void> {
+    const index = await this.loadIndex()
+    await this.removeExpiredEntries()
+
+    if (index.size >= this.maxSize && !index.has(key)) {
+      const oldestKey = index.keys().next().value
+      if (oldestKey !== undefined) {
+        await this.delete(oldestKey)
       }
     }
 
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      const oldestKey = this.keyOrder[0]
-      if (oldestKey) {
-        this.cache.delete(oldestKey)
-        this.keyOrder.shift()
-      }
-    }
-
-    this.cache.set(key, {
-      data: value,
+    await this.write(key, {
+      data: serializeResponse(response),
       timestamp: Date.now(),
       ttl,
+      vary: options.vary,
+      revalidatable: options.revalidatable,
+      tags: options.tags,
     })
-    this.keyOrder.push(key)
   }
 
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key) as CacheEntry<T>
+  async get<T>(key: string, config: RequestConfig): Promise<FetchesResponse<T> | null> {
+    const cached = await this.lookup<T>(key, config)
+    return cached?.fresh ? cached.response : null
+  }
 
-    if (!entry)
+  // Unlike get(), also returns expired entries that are still within maxStale
+  // or were stored as revalidatable, so the caller can serve them stale or
+  // send a conditional request for them.
+  async lookup<T>(key: string, config: RequestConfig): Promise<CacheLookup<T> | null> {
+    const index = await this.loadIndex()
+    const entry = await this.storage.get(key)
+
+    if (!entry) {
+      index.delete(key)
+      return null
+    }
+
+    if (this.isDead(this.toIndexEntry(entry))) {
+      await this.delete(key)
       return null
+    }
 
-    if (this.isExpired(entry)) {
-      this.delete(key)
+    if (!varyMatches(entry.vary, new Headers(config.headers)))
       return null
+
+    index.delete(key)
+    index.set(key, this.toIndexEntry(entry))
+
+    return {
+      response: deserializeResponse(entry.data as SerializedResponse<T>, config),
+      fresh: !this.isExpired(entry),
+      revalidatable: entry.revalidatable ?? false,
     }
+  }
 
-    const index = this.keyOrder.indexOf(key)
-    if (index > -1) {
-      this.keyOrder.splice(index, 1)
-      this.keyOrder.push(key)
+  async revalidate<T>(
+    key: string,
+    headers: Headers,
+    ttl: number,
+    config: RequestConfig,
+  ): Promise<FetchesResponse<T> | null> {
+    const entry = await this.storage.get(key)
+    if (!entry)
+      return null
+
+    const refreshed: CacheEntry = {
+      ...entry,
+      data: {
+        ...entry.data,
+        headers: [...mergeRevalidatedHeaders(new Headers(entry.data.headers), headers).entries()],
+      },
+      timestamp: Date.now(),
+      ttl,
     }
 
-    return entry.data
+    await this.write(key, refreshed)
+
+    return deserializeResponse(refreshed.data as SerializedResponse<T>, config)
   }
 
-  clear(): void {
-    this.cache.clear()
-    this.keyOrder.length = 0
+  async clear(): Promise<void> {
+    const index = await this.loadIndex()
+    await this.storage.clear()
+    index.clear()
   }
 
-  invalidate(pattern: string | RegExp): void {
-    const regex = typeof pattern === 'string'
-      ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
-      : pattern
+  // A string removes that URL and everything below it, so `/users` covers
+  // `/users?page=2` and `/users/1` but not `/users-archive`. Use a RegExp to
+  // match more loosely.
+  async invalidate(pattern: string | RegExp): Promise<void> {
+    const keysToDelete = (await this.keys()).filter(key =>
+      typeof pattern === 'string' ? matchesUrl(key, pattern) : pattern.test(key))
 
-    const keysToDelete: string[] = []
+    await Promise.all(keysToDelete.map(key => this.delete(key)))
+  }
 
-    this.keyOrder.forEach((key) => {
-      if (regex.test(key)) {
-        keysToDelete.push(key)
-      }
-    })
+  async invalidateTags(tags: string[]): Promise<void> {
+    const keysToDelete = [...(await this.loadIndex())]
+      .filter(([, indexEntry]) => indexEntry.tags.some(tag => tags.includes(tag)))
+      .map(([key]) => key)
 
-    keysToDelete.forEach(key => this.delete(key))
+    await Promise.all(keysToDelete.map(key => this.delete(key)))
   }
 
-  private isExpired(entry: CacheEntry<unknown>): boolean {
-    return Date.now() - entry.timestamp > entry.ttl
+  async delete(key: string): Promise<void> {
+    const index = await this.loadIndex()
+    index.delete(key)
+    await this.storage.delete(key)
   }
 
-  private delete(key: string): void {
-    this.cache.delete(key)
-    const index = this.keyOrder.indexOf(key)
-    if (index > -1) {
-      this.keyOrder.splice(index, 1)
-    }
+  async has(key: string): Promise<boolean> {
+    const indexEntry = (await this.loadIndex()).get(key)
+    return indexEntry !== undefined && Date.now() < indexEntry.expiresAt
   }
 
-  private removeExpiredEntries(): void {
-    for (const [key, entry] of this.cache.entries()) {
-      if (this.isExpired(entry)) {
-        this.delete(key)
-      }
+  async size(): Promise<number> {
+    return (await this.loadIndex()).size
+  }
+
+  async keys(): Promise<string[]> {
+    return [...(await this.loadIndex()).keys()]
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.timestamp >= entry.ttl
+  }
+
+  private isDead({ expiresAt, revalidatable }: IndexEntry): boolean {
+    return !revalidatable && Date.now() >= expiresAt + this.maxStale
+  }
+
+  private toIndexEntry(entry: CacheEntry): IndexEntry {
+    return {
+      expiresAt: entry.timestamp + entry.ttl,
+      revalidatable: entry.revalidatable ?? false,
+      tags: entry.tags ?? [],
     }
   }
 
-  has(key: string): boolean {
-    return this.cache.has(key) && !this.isExpired(this.cache.get(key)!)
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    const index = await this.loadIndex()
+    index.delete(key)
+    index.set(key, this.toIndexEntry(entry))
+    await this.storage.set(key, entry)
   }
 
-  size(): number {
-    return this.cache.size
+  private async removeExpiredEntries(): Promise<void> {
+    for (const [key, indexEntry] of await this.loadIndex()) {
+      if (this.isDead(indexEntry)) {
+        await this.delete(key)
+      }
+    }
   }
 
-  keys(): string[] {
-    return [...this.keyOrder]
+  // Persistent storages may already hold entries from a previous run, so the
+  // LRU index is rebuilt from them once, oldest first.
+  private loadIndex(): Promise<Map<string, IndexEntry>> {
+    this.index ??= (async () => {
+      const entries: [string, CacheEntry][] = []
+
+      for (const key of await this.storage.keys()) {
+        const entry = await this.storage.get(key)
+        if (entry) {
+          entries.push([key, entry])
+        }
+      }
+
+      entries.sort(([, a], [, b]) => a.timestamp - b.timestamp)
+
+      return new Map(entries.map(([key, entry]) => [key, this.toIndexEntry(entry)]))
+    })()
+
+    return this.index
   }
 }
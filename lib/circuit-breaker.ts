@@ -0,0 +1,146 @@
+import type { CircuitBreakerConfig, CircuitState, CircuitStateChangeEvent, RequestConfig } from './types.js'
+import { FetchesCircuitOpenError, FetchesNetworkError, FetchesResponseError, FetchesTimeoutError } from './errors.js'
+
+interface Circuit {
+  state: CircuitState
+  outcomes: boolean[]
+  consecutiveFailures: number
+  openedAt: number
+  trials: number
+}
+
+function defaultKey(url: string): string {
+  try {
+    return new URL(url).origin
+  }
+  catch {
+    return url
+  }
+}
+
+function defaultIsFailure(error: Error): boolean {
+  if (error instanceof FetchesResponseError)
+    return error.response.status >= 500
+
+  return error instanceof FetchesNetworkError || error instanceof FetchesTimeoutError
+}
+
+export class CircuitBreaker {
+  private readonly config: Required<Omit<CircuitBreakerConfig, 'failureRateThreshold'>>
+    & Pick<CircuitBreakerConfig, 'failureRateThreshold'>
+
+  private readonly circuits = new Map<string, Circuit>()
+  private readonly onStateChange: (event: CircuitStateChangeEvent) => void
+
+  constructor(config: CircuitBreakerConfig, onStateChange: (event: CircuitStateChangeEvent) => void) {
+    this.config = {
+      key: config.key ?? defaultKey,
+      failureThreshold: config.failureThreshold ?? 5,
+      failureRateThreshold: config.failureRateThreshold,
+      minimumRequests: config.minimumRequests ?? 10,
+      windowSize: config.windowSize ?? 20,
+      cooldown: config.cooldown ?? 30000,
+      halfOpenMaxRequests: config.halfOpenMaxRequests ?? 1,
+      isFailure: config.isFailure ?? defaultIsFailure,
+    }
+    this.onStateChange = onStateChange
+  }
+
+  getKey(url: string, config: RequestConfig): string {
+    return this.config.key(url, config)
+  }
+
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key)
+    if (!circuit)
+      return 'closed'
+
+    if (circuit.state === 'open' && Date.now() - circuit.openedAt >= this.config.cooldown) {
+      this.transition(key, circuit, 'half-open')
+    }
+
+    return circuit.state
+  }
+
+  // Throws while the circuit is open or all half-open trial slots are taken.
+  acquire(key: string): void {
+    const state = this.getState(key)
+    const circuit = this.circuits.get(key)
+
+    if (!circuit || state === 'closed')
+      return
+
+    if (state === 'half-open' && circuit.trials < this.config.halfOpenMaxRequests) {
+      circuit.trials++
+      return
+    }
+
+    throw new FetchesCircuitOpenError(key, circuit.openedAt + this.config.cooldown)
+  }
+
+  release(key: string): void {
+    const circuit = this.circuits.get(key)
+    if (circuit?.state === 'half-open' && circuit.trials > 0) {
+      circuit.trials--
+    }
+  }
+
+  // Errors that isFailure() rejects, like a 404, still prove the upstream is
+  // answering and count as successes.
+  record(key: string, error?: Error): void {
+    const circuit = this.getCircuit(key)
+    const failed = error !== undefined && this.config.isFailure(error)
+
+    if (circuit.state === 'half-open') {
+      this.transition(key, circuit, failed ? 'open' : 'closed')
+      return
+    }
+
+    circuit.outcomes.push(failed)
+    if (circuit.outcomes.length > this.config.windowSize) {
+      circuit.outcomes.shift()
+    }
+    circuit.consecutiveFailures = failed ? circuit.consecutiveFailures + 1 : 0
+
+    if (failed && circuit.state === 'closed' && this.shouldTrip(circuit)) {
+      this.transition(key, circuit, 'open')
+    }
+  }
+
+  private shouldTrip(circuit: Circuit): boolean {
+    if (circuit.consecutiveFailures >= this.config.failureThreshold)
+      return true
+
+    const { failureRateThreshold, minimumRequests } = this.config
+    if (failureRateThreshold === undefined || circuit.outcomes.length < minimumRequests)
+      return false
+
+    const failures = circuit.outcomes.filter(Boolean).length
+    return failures / circuit.outcomes.length >= failureRateThreshold
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key)
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], consecutiveFailures: 0, openedAt: 0, trials: 0 }
+      this.circuits.set(key, circuit)
+    }
+    return circuit
+  }
+
+  private transition(key: string, circuit: Circuit, to: CircuitState): void {
+    const from = circuit.state
+    circuit.state = to
+    circuit.trials = 0
+
+    if (to === 'open') {
+      circuit.openedAt = Date.now()
+    }
+    else if (to === 'closed') {
+      circuit.outcomes = []
+      circuit.consecutiveFailures = 0
+    }
+
+    this.onStateChange({ key, from, to })
+  }
+}
@@ -1,32 +1,220 @@
-export class FetchesTimeoutError extends Error {
-  constructor(message: string) {
-    super(message)
+import type {
+  FetchesErrorCode,
+  FetchesErrorContext,
+  RequestConfig,
+  RequestValidationTarget,
+  TimeoutBudget,
+  ValidationErrorDetails,
+  ValidationIssue,
+} from './types.js'
+
+export const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']
+
+function redactHeaders(headers?: HeadersInit): Record<string, string> | undefined {
+  if (!headers)
+    return undefined
+
+  const redacted: Record<string, string> = {}
+  new Headers(headers).forEach((value, name) => {
+    redacted[name] = SENSITIVE_HEADERS.includes(name) ? '[REDACTED]' : value
+  })
+  return redacted
+}
+
+function serializeCause(cause: unknown): unknown {
+  if (cause instanceof FetchesError)
+    return cause.toJSON()
+  if (cause instanceof Error)
+    return { name: cause.name, message: cause.message }
+  return cause
+}
+
+export class FetchesError extends Error {
+  public readonly code: FetchesErrorCode
+  // Filled in by Fetches once the error reaches the request that caused it.
+  public config?: RequestConfig
+  public url?: string
+  public method?: string
+  public attempt?: number
+
+  constructor(message: string, code: FetchesErrorCode, context: FetchesErrorContext = {}) {
+    super(message, { cause: context.cause })
+    this.name = 'FetchesError'
+    this.code = code
+    this.config = context.config
+    this.url = context.url
+    this.method = context.method
+    this.attempt = context.attempt
+  }
+
+  // Request bodies are left out and credential headers are masked, so the
+  // result can be sent to error reporting as is.
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      url: this.url,
+      method: this.method,
+      attempt: this.attempt,
+      config: this.config && {
+        method: this.config.method,
+        url: this.config.url,
+        baseURL: this.config.baseURL,
+        params: this.config.params,
+        headers: redactHeaders(this.config.headers),
+        timeout: this.config.timeout,
+        requestId: this.config.requestId,
+      },
+      cause: serializeCause(this.cause),
+    }
+  }
+}
+
+export class FetchesTimeoutError extends FetchesError {
+  public readonly budget?: TimeoutBudget
+  public readonly timeout?: number
+
+  constructor(message: string, budget?: TimeoutBudget, timeout?: number, context?: FetchesErrorContext) {
+    super(message, 'ERR_TIMEOUT', context)
     this.name = 'FetchesTimeoutError'
+    this.budget = budget
+    this.timeout = timeout
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), budget: this.budget, timeout: this.timeout }
   }
 }
 
-export class FetchesNetworkError extends Error {
-  constructor(message: string) {
-    super(message)
+export class FetchesNetworkError extends FetchesError {
+  constructor(message: string, context?: FetchesErrorContext) {
+    super(message, 'ERR_NETWORK', context)
     this.name = 'FetchesNetworkError'
   }
 }
 
-export class FetchesValidationError extends Error {
-  constructor(message: string) {
-    super(message)
+export class FetchesValidationError extends FetchesError {
+  public readonly issues: ValidationIssue[]
+  // The value that failed validation, before any schema transforms.
+  public readonly data?: unknown
+  public readonly line?: number
+
+  constructor(message: string, details: ValidationErrorDetails = {}, context?: FetchesErrorContext) {
+    super(message, 'ERR_VALIDATION', context)
     this.name = 'FetchesValidationError'
+    this.issues = details.issues ?? []
+    this.data = details.data
+    this.line = details.line
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), issues: this.issues, line: this.line }
   }
 }
 
-export class FetchesResponseError<T> extends Error {
+// Raised before anything is sent when the outgoing data or params do not
+// match the request schemas, so the fix belongs on the client side.
+export class FetchesRequestValidationError extends FetchesError {
+  public readonly target: RequestValidationTarget
+  public readonly issues: ValidationIssue[]
+  public readonly data?: unknown
+
+  constructor(
+    message: string,
+    target: RequestValidationTarget,
+    details: ValidationErrorDetails = {},
+    context?: FetchesErrorContext,
+  ) {
+    super(message, 'ERR_REQUEST_VALIDATION', context)
+    this.name = 'FetchesRequestValidationError'
+    this.target = target
+    this.issues = details.issues ?? []
+    this.data = details.data
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), target: this.target, issues: this.issues }
+  }
+}
+
+export class FetchesResponseError<T> extends FetchesError {
   public readonly response: Response
   public readonly data?: T
 
-  constructor(response: Response, data?: T) {
-    super(`HTTP Error: ${response.status} ${response.statusText}`)
+  constructor(response: Response, data?: T, context?: FetchesErrorContext) {
+    super(`HTTP Error: ${response.status} ${response.statusText}`, 'ERR_HTTP', context)
     this.name = 'FetchesResponseError'
     this.response = response
     this.data = data
   }
+
+  get status(): number {
+    return this.response.status
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      status: this.response.status,
+      statusText: this.response.statusText,
+      headers: redactHeaders(this.response.headers),
+      data: this.data,
+    }
+  }
+}
+
+export class FetchesCacheMissError extends FetchesError {
+  constructor(message: string, context?: FetchesErrorContext) {
+    super(message, 'ERR_CACHE_MISS', context)
+    this.name = 'FetchesCacheMissError'
+  }
+}
+
+export class FetchesCircuitOpenError extends FetchesError {
+  public readonly key: string
+  public readonly retryAt: number
+
+  constructor(key: string, retryAt: number, context?: FetchesErrorContext) {
+    super(`Circuit open for ${key}`, 'ERR_CIRCUIT_OPEN', context)
+    this.name = 'FetchesCircuitOpenError'
+    this.key = key
+    this.retryAt = retryAt
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), key: this.key, retryAt: this.retryAt }
+  }
+}
+
+export class FetchesUploadError extends FetchesError {
+  constructor(message: string, context?: FetchesErrorContext) {
+    super(message, 'ERR_UPLOAD', context)
+    this.name = 'FetchesUploadError'
+  }
+}
+
+// Raised in replay mode when a request has no recorded response.
+export class FetchesReplayMissError extends FetchesError {
+  constructor(message: string, context?: FetchesErrorContext) {
+    super(message, 'ERR_REPLAY_MISS', context)
+    this.name = 'FetchesReplayMissError'
+  }
+}
+
+// Raised when a response stream is iterated a second time.
+export class FetchesStreamConsumedError extends FetchesError {
+  constructor(message: string, context?: FetchesErrorContext) {
+    super(message, 'ERR_STREAM_CONSUMED', context)
+    this.name = 'FetchesStreamConsumedError'
+  }
+}
+
+export function isFetchesError(error: unknown): error is FetchesError {
+  return error instanceof FetchesError
+}
+
+// Narrows to an HTTP error response, optionally with a specific status.
+export function isHttpError<T = unknown>(error: unknown, status?: number): error is FetchesResponseError<T> {
+  return error instanceof FetchesResponseError && (status === undefined || error.response.status === status)
 }
@@ -0,0 +1,24 @@
+export type Listener<T> = (payload: T) => void
+
+export class EventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<Listener<any>>>()
+
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(type, listeners)
+    }
+    listeners.add(listener)
+
+    return () => this.off(type, listener)
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.listeners.get(type)?.forEach(listener => listener(payload))
+  }
+}
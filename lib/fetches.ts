@@ -1,128 +1,320 @@
+import type { CacheLookup } from './cache.js'
 import type {
+  CachePolicy,
+  CacheStrategy,
+  FetchesAdapter,
+  FetchesAdapterContext,
   FetchesConfig,
+  FetchesErrorContext,
+  FetchesEvents,
+  FetchesProgressEvent,
   FetchesResponse,
+  InferSchema,
+  Middleware,
   RequestConfig,
-  RequestInterceptor,
+  RequestSchemaConfig,
   RequestTransformer,
-  ResponseInterceptor,
+  RequestValidationTarget,
   ResponseTransformer,
+  ResponseType,
   RetryConfig,
-  ValidatorAdapter,
+  RetryContext,
+  SchemaRequestConfig,
+  SSEConfig,
+  TusUploadConfig,
+  TypedClient,
+  UploadConfig,
   ValidatorType,
 } from './types.js'
+import { AuthManager } from './auth.js'
 import { RequestCache } from './cache.js'
+import { CircuitBreaker } from './circuit-breaker.js'
 import {
+  FetchesCacheMissError,
+  FetchesError,
   FetchesNetworkError,
+  FetchesRequestValidationError,
   FetchesResponseError,
   FetchesTimeoutError,
   FetchesValidationError,
 } from './errors.js'
+import { EventEmitter } from './events.js'
+import {
+  getConditionalHeaders,
+  getFreshnessLifetime,
+  getVaryValues,
+  hasValidators,
+  isStorable,
+  mergeRevalidatedHeaders,
+  NULL_BODY_STATUSES,
+} from './http-cache.js'
+import { InterceptorManager } from './interceptors.js'
+import { compose, runInterceptors } from './middleware.js'
+import { NDJSONStream } from './ndjson.js'
+import { supportsRequestStreams, trackDownloadProgress, trackUploadProgress } from './progress.js'
+import { getRetryDelay, isRetryable } from './retry.js'
+import { RequestScheduler } from './scheduler.js'
+import { FetchesEventSource } from './sse.js'
+import { combineSignals, Deadline, getTimeoutError } from './timeout.js'
+import { TusUpload } from './tus.js'
+import { createFormData, isBrowser, sendWithXHR } from './upload.js'
 import { ValidatorFactory } from './validators/factory.js'
 
+// Aborts through the caller's signal or cancelRequest surface as network
+// errors caused by an AbortError.
+function isCancellation(error: Error, signal?: AbortSignal | null): boolean {
+  return !!signal?.aborted || (error.cause instanceof Error && error.cause.name === 'AbortError')
+}
+
+// Plain objects and arrays are cloned; anything else, such as a Blob or a
+// class built by a schema, is passed on as is.
+function cloneData<T>(data: T): T {
+  const prototype = typeof data === 'object' && data !== null ? Object.getPrototypeOf(data) : undefined
+  if (prototype !== Object.prototype && prototype !== Array.prototype && prototype !== null)
+    return data
+
+  try {
+    return structuredClone(data)
+  }
+  catch {
+    return data
+  }
+}
+
+// Deduplicated callers each get their own response, so one of them changing
+// it does not affect the others.
+function copyResponse<T>(response: FetchesResponse<T>): FetchesResponse<T> {
+  return { ...response, data: cloneData(response.data), headers: new Headers(response.headers) }
+}
+
+interface InflightRequest {
+  promise: Promise<FetchesResponse<any>>
+  controller: AbortController
+  subscribers: number
+}
+
 class Fetches {
+  public readonly auth: AuthManager
+  public readonly interceptors: {
+    request: InterceptorManager<RequestConfig>
+    response: InterceptorManager<FetchesResponse<any>>
+  }
+
   private readonly baseURL?: string
   private readonly defaultHeaders: HeadersInit
   private readonly timeout: number
+  private readonly totalTimeout?: number
+  private readonly headersTimeout?: number
+  private readonly bodyTimeout?: number
   private readonly validateResponse: boolean
-  private readonly validatorType: ValidatorType
-  private readonly cache: RequestCache
+  private readonly validatorType?: ValidatorType
+  private readonly requestCache: RequestCache
+  private readonly cacheEnabled: boolean
+  private readonly cacheTtl: number
+  private readonly cachePolicy: CachePolicy
+  private readonly cacheStrategy: CacheStrategy
+  private readonly sharedCache: boolean
   private readonly retryConfig?: RetryConfig
-  private readonly validator: ValidatorAdapter<unknown, unknown>
+  private readonly scheduler?: RequestScheduler
+  private readonly circuitBreaker?: CircuitBreaker
+  private readonly adapter?: FetchesAdapter
   private readonly requestTransformers: RequestTransformer[]
   private readonly responseTransformers: ResponseTransformer<unknown>[]
   private readonly activeRequests: Map<string, AbortController>
-  private requestInterceptors: RequestInterceptor[] = []
-  private responseInterceptors: ResponseInterceptor[] = []
+  private readonly inflightRequests: Map<string, InflightRequest>
+  private readonly schemaIds = new WeakMap<object, number>()
+  private nextSchemaId = 0
+  private readonly dedupe: boolean
+  private readonly events: EventEmitter<FetchesEvents>
+  private readonly middleware: Middleware[]
 
   constructor(config: FetchesConfig = {}) {
     this.baseURL = config.baseURL
     this.defaultHeaders = config.defaultHeaders || {}
     this.timeout = config.timeout ?? 30000
+    this.totalTimeout = config.totalTimeout
+    this.headersTimeout = config.headersTimeout
+    this.bodyTimeout = config.bodyTimeout
     this.validateResponse = config.validateResponse ?? true
-    this.validatorType = config.validatorType ?? 'zod'
-    this.validator = ValidatorFactory.createValidator(this.validatorType)
-    this.cache = new RequestCache(config.cache?.maxSize)
+    this.validatorType = config.validatorType
+    this.requestCache = new RequestCache(config.cache?.maxSize, config.cache?.storage, config.cache?.maxStale)
+    this.cacheEnabled = config.cache?.enabled ?? true
+    this.cacheTtl = config.cache?.ttl ?? 300000
+    this.cachePolicy = config.cache?.policy ?? 'ttl'
+    this.cacheStrategy = config.cache?.strategy ?? 'cache-first'
+    this.sharedCache = config.cache?.shared ?? false
     this.retryConfig = config.retry
+    this.scheduler = config.scheduler && new RequestScheduler(config.scheduler)
     this.requestTransformers = config.transformRequest || []
     this.responseTransformers = config.transformResponse || []
     this.activeRequests = new Map()
-
-    if (config.interceptors?.request) {
-      this.requestInterceptors = [...config.interceptors.request]
-    }
-    if (config.interceptors?.response) {
-      this.responseInterceptors = [...config.interceptors.response]
+    this.inflightRequests = new Map()
+    this.dedupe = config.dedupe ?? true
+    this.events = new EventEmitter()
+    this.auth = new AuthManager(config.auth)
+    this.adapter = config.adapter
+    this.circuitBreaker = config.circuitBreaker
+      && new CircuitBreaker(config.circuitBreaker, event => this.events.emit('circuitStateChange', event))
+
+    this.middleware = [...config.middleware ?? []]
+
+    this.interceptors = {
+      request: new InterceptorManager(config.interceptors?.request),
+      response: new InterceptorManager(config.interceptors?.response),
     }
   }
 
-  public interceptors = {
-    request: {
-      use: (
-        onFulfilled?: RequestInterceptor['onFulfilled'],
-        onRejected?: RequestInterceptor['onRejected'],
-      ): number => {
-        const id = this.requestInterceptors.length
-        this.requestInterceptors.push({ onFulfilled, onRejected })
-        return id
-      },
-      eject: (id: number): void => {
-        if (id >= 0 && id < this.requestInterceptors.length) {
-          this.requestInterceptors[id] = {} as RequestInterceptor
-        }
-      },
+  public cache = {
+    get: <T = any>(url: string, config: RequestConfig = {}): Promise<FetchesResponse<T> | null> => {
+      const cacheKey = this.getCacheKey('GET', this.buildUrl(url, config.baseURL, config.params), config.data, config.responseType)
+      return this.requestCache.get<T>(cacheKey, { ...config, method: 'GET', url })
     },
-    response: {
-      use: (
-        onFulfilled?: ResponseInterceptor['onFulfilled'],
-        onRejected?: ResponseInterceptor['onRejected'],
-      ): number => {
-        const id = this.responseInterceptors.length
-        this.responseInterceptors.push({ onFulfilled, onRejected })
-        return id
-      },
-      eject: (id: number): void => {
-        if (id >= 0 && id < this.responseInterceptors.length) {
-          this.responseInterceptors[id] = {} as ResponseInterceptor
-        }
-      },
+    set: <T = any>(url: string, data: T, config: RequestConfig = {}): Promise<void> => {
+      const cacheKey = this.getCacheKey('GET', this.buildUrl(url, config.baseURL, config.params), config.data, config.responseType)
+      const response: FetchesResponse<T> = {
+        data,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers(),
+        config: { ...config, method: 'GET', url },
+      }
+      return this.requestCache.set(cacheKey, response, config.cacheTime ?? this.cacheTtl, { tags: config.tags })
+    },
+    invalidate: (target: string | RegExp | { tags: string[] }): Promise<void> => {
+      if (typeof target === 'string')
+        return this.requestCache.invalidate(this.buildUrl(target))
+      if (target instanceof RegExp)
+        return this.requestCache.invalidate(target)
+      return this.requestCache.invalidateTags(target.tags)
     },
+    clear: (): Promise<void> => this.requestCache.clear(),
   }
 
-  public get<T = any>(url: string, config?: RequestConfig): Promise<FetchesResponse<T>> {
-    return this.request<T>({ ...config, method: 'GET', url })
+  // Passing `validatorSchema` types the response data from the schema; an
+  // explicit type argument still takes precedence.
+  public get<S>(url: string, config: SchemaRequestConfig<S>): Promise<FetchesResponse<InferSchema<S>>>
+  public get<T = any>(url: string, config?: RequestConfig): Promise<FetchesResponse<T>>
+  public get(url: string, config?: RequestConfig): Promise<FetchesResponse<any>> {
+    return this.request({ ...config, method: 'GET', url })
   }
 
-  public post<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> {
-    return this.request<T>({ ...config, method: 'POST', url, data })
+  public post<S>(url: string, data: any, config: SchemaRequestConfig<S>): Promise<FetchesResponse<InferSchema<S>>>
+  public post<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>>
+  public post(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<any>> {
+    return this.request({ ...config, method: 'POST', url, data })
   }
 
-  public put<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> {
-    return this.request<T>({ ...config, method: 'PUT', url, data })
+  public put<S>(url: string, data: any, config: SchemaRequestConfig<S>): Promise<FetchesResponse<InferSchema<S>>>
+  public put<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>>
+  public put(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<any>> {
+    return this.request({ ...config, method: 'PUT', url, data })
   }
 
-  public patch<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> {
-    return this.request<T>({ ...config, method: 'PATCH', url, data })
+  public patch<S>(url: string, data: any, config: SchemaRequestConfig<S>): Promise<FetchesResponse<InferSchema<S>>>
+  public patch<T = any>(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>>
+  public patch(url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<any>> {
+    return this.request({ ...config, method: 'PATCH', url, data })
   }
 
-  public delete<T = any>(url: string, config?: RequestConfig): Promise<FetchesResponse<T>> {
-    return this.request<T>({ ...config, method: 'DELETE', url })
+  public delete<S>(url: string, config: SchemaRequestConfig<S>): Promise<FetchesResponse<InferSchema<S>>>
+  public delete<T = any>(url: string, config?: RequestConfig): Promise<FetchesResponse<T>>
+  public delete(url: string, config?: RequestConfig): Promise<FetchesResponse<any>> {
+    return this.request({ ...config, method: 'DELETE', url })
   }
 
-  public create<T = unknown>(schema?: unknown) {
+  // The client's response type is inferred from the schema, unless it is
+  // given explicitly as in `create<User>(schema)`.
+  public create<S>(schema: S, requestSchemas?: RequestSchemaConfig): TypedClient<InferSchema<S>>
+  public create<T = unknown>(schema?: unknown, requestSchemas?: RequestSchemaConfig): TypedClient<T>
+  public create(schema?: unknown, requestSchemas: RequestSchemaConfig = {}): TypedClient<any> {
+    // Identifies the client, so its interceptors only run for its own requests.
+    const scope = {}
+
     return {
-      get: (url: string, config?: RequestConfig): Promise<FetchesResponse<T>> =>
-        this.request<T>({ ...config, method: 'GET', url, validatorSchema: schema }),
-      post: (url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> =>
-        this.request<T>({ ...config, method: 'POST', url, data, validatorSchema: schema }),
-      put: (url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> =>
-        this.request<T>({ ...config, method: 'PUT', url, data, validatorSchema: schema }),
-      patch: (url: string, data?: any, config?: RequestConfig): Promise<FetchesResponse<T>> =>
-        this.request<T>({ ...config, method: 'PATCH', url, data, validatorSchema: schema }),
-      delete: (url: string, config?: RequestConfig): Promise<FetchesResponse<T>> =>
-        this.request<T>({ ...config, method: 'DELETE', url, validatorSchema: schema }),
+      interceptors: {
+        request: this.interceptors.request.scoped(scope),
+        response: this.interceptors.response.scoped(scope),
+      },
+      get: (url, config) =>
+        this.runRequest({ ...requestSchemas, ...config, method: 'GET', url, validatorSchema: schema }, scope),
+      post: (url, data, config) =>
+        this.runRequest({ ...requestSchemas, ...config, method: 'POST', url, data, validatorSchema: schema }, scope),
+      put: (url, data, config) =>
+        this.runRequest({ ...requestSchemas, ...config, method: 'PUT', url, data, validatorSchema: schema }, scope),
+      patch: (url, data, config) =>
+        this.runRequest({ ...requestSchemas, ...config, method: 'PATCH', url, data, validatorSchema: schema }, scope),
+      delete: (url, config) =>
+        this.runRequest({ ...requestSchemas, ...config, method: 'DELETE', url, validatorSchema: schema }, scope),
     }
   }
 
+  // Sends the files as multipart/form-data under `file`, or `file0`, `file1`, ...
+  // when given an array, through the regular request pipeline.
+  public upload<T = any>(
+    url: string,
+    file: File | Blob | Array<File | Blob>,
+    config: UploadConfig = {},
+  ): Promise<FetchesResponse<T>> {
+    const { fields, ...requestConfig } = config
+
+    return this.request<T>({
+      ...requestConfig,
+      method: requestConfig.method ?? 'POST',
+      url,
+      data: createFormData(file, fields),
+    })
+  }
+
+  // Resumable upload over the tus protocol. Chunk retries default to the
+  // instance retry settings; call start() on the result to begin.
+  public resumableUpload(file: Blob, config: TusUploadConfig): TusUpload {
+    return new TusUpload(file, {
+      ...config,
+      endpoint: this.buildUrl(config.endpoint),
+      retry: config.retry ?? this.retryConfig,
+    }, requestConfig => this.request(requestConfig))
+  }
+
+  public sse<T = string>(url: string, config: SSEConfig<T> = {}): FetchesEventSource<T> {
+    const {
+      json,
+      reconnect,
+      retryInterval,
+      maxRetries,
+      lastEventId,
+      onOpen,
+      onMessage,
+      onError,
+      ...requestConfig
+    } = config
+
+    return new FetchesEventSource<T>({
+      connect: (lastEventId, signal) => this.request<ReadableStream<Uint8Array> | null>({
+        ...requestConfig,
+        method: requestConfig.method ?? 'GET',
+        url,
+        headers: {
+          ...Object.fromEntries(new Headers(requestConfig.headers)),
+          Accept: 'text/event-stream',
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        signal: combineSignals(requestConfig.signal, signal),
+        responseType: 'stream',
+        skipCache: true,
+        dedupe: false,
+      }),
+      decode: data => this.decodeEvent<T>(data, config),
+      config,
+    })
+  }
+
+  public on<K extends keyof FetchesEvents>(
+    type: K,
+    listener: (event: FetchesEvents[K]) => void,
+  ): () => void {
+    return this.events.on(type, listener)
+  }
+
   public cancelRequest(requestId: string): void {
     const controller = this.activeRequests.get(requestId)
     if (controller) {
@@ -137,6 +329,20 @@ class Fetches {
   }
 
   public async request<T = any>(config: RequestConfig): Promise<FetchesResponse<T>> {
+    return this.runRequest<T>(config)
+  }
+
+  public use(middleware: Middleware): () => void {
+    this.middleware.push(middleware)
+    return () => {
+      const index = this.middleware.indexOf(middleware)
+      if (index > -1) {
+        this.middleware.splice(index, 1)
+      }
+    }
+  }
+
+  private async runRequest<T>(config: RequestConfig, scope?: object): Promise<FetchesResponse<T>> {
     const mergedConfig: RequestConfig = {
       ...config,
       baseURL: config.baseURL ?? this.baseURL,
@@ -149,145 +355,464 @@ class Fetches {
       },
     }
 
-    const finalConfig = await this.applyRequestInterceptors(mergedConfig)
+    const pipeline = compose([this.interceptorMiddleware(scope), ...this.middleware, this.transformMiddleware()], context =>
+      this.handleRequest(context.config))
+    return pipeline({ config: mergedConfig, state: {} })
+  }
+
+  // The interceptor APIs run as the outermost middleware. Request and response
+  // interceptors form one chain, so response `onRejected` also sees errors
+  // from request interceptors.
+  private interceptorMiddleware(scope?: object): Middleware {
+    return (context, next) => {
+      const url = this.buildUrl(context.config.url ?? '', context.config.baseURL)
+      const requestInterceptors = this.interceptors.request.select(context.config, url, scope)
+      const responseInterceptors = this.interceptors.response.select(context.config, url, scope)
+
+      return runInterceptors(responseInterceptors, async () => {
+        context.config = await runInterceptors(requestInterceptors, async () => context.config)
+        return next()
+      })
+    }
+  }
+
+  // `transformRequest` runs as the innermost middleware, once per request.
+  // `transformResponse` stays in processResponse, where it sees the real
+  // Response and runs before validation and caching.
+  private transformMiddleware(): Middleware {
+    return async (context, next) => {
+      context.config = await this.applyRequestTransformers(context.config)
+      return next()
+    }
+  }
+
+  private async handleRequest<T>(config: RequestConfig): Promise<FetchesResponse<T>> {
+    const finalConfig = await this.validateRequest(config)
 
     const requestId = finalConfig.requestId ?? crypto.randomUUID()
     const method = (finalConfig.method ?? 'GET').toUpperCase()
     const url = this.buildUrl(finalConfig.url ?? '', finalConfig.baseURL, finalConfig.params)
-    const cacheKey = this.getCacheKey(method, url, finalConfig.data)
+    const cacheKey = this.getCacheKey(method, url, finalConfig.data, finalConfig.responseType)
+    const streaming = finalConfig.responseType === 'stream' || finalConfig.responseType === 'ndjson'
+    // Blobs and buffers do not survive JSON storages, so they are never cached.
+    const binary = finalConfig.responseType === 'blob' || finalConfig.responseType === 'arrayBuffer'
+    // Progress callbacks belong to a single caller, so those requests run alone.
+    const dedupeKey = method === 'GET' && !streaming && !finalConfig.onDownloadProgress
+      && (finalConfig.dedupe ?? this.dedupe)
+      ? this.getDedupeKey(cacheKey, finalConfig)
+      : undefined
+    // A shared request outlives any single caller, so each caller's signal is
+    // watched in joinInflight instead of being passed on.
+    const sharedConfig = dedupeKey === undefined ? finalConfig : { ...finalConfig, signal: undefined }
+
+    if (method !== 'GET' || streaming || binary || !this.cacheEnabled || finalConfig.skipCache) {
+      const response = await this.send<T>(requestId, dedupeKey, finalConfig.signal, controller =>
+        this.dispatch<T>({ config: sharedConfig, controller, url }))
+
+      if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+        const urlWithoutParams = url.split('?')[0]
+        await this.requestCache.invalidate(urlWithoutParams)
+      }
+      if (finalConfig.invalidates?.length) {
+        await this.requestCache.invalidateTags(finalConfig.invalidates)
+      }
+
+      return response
+    }
+
+    const strategy = finalConfig.cacheStrategy ?? this.cacheStrategy
+    const cached = strategy === 'network-only' ? null : await this.requestCache.lookup<T>(cacheKey, finalConfig)
+
+    if (strategy === 'cache-only') {
+      if (cached)
+        return cached.response
+      throw new FetchesCacheMissError(`No cached response for ${method} ${url}`, { config: finalConfig, url, method })
+    }
+
+    if (cached?.fresh && strategy !== 'network-first')
+      return cached.response
 
-    if (method === 'GET' && !finalConfig.skipCache) {
-      const cachedData = this.cache.get<FetchesResponse<T>>(cacheKey)
-      if (cachedData)
-        return cachedData
+    if (cached && strategy === 'stale-while-revalidate') {
+      this.revalidateInBackground(cacheKey, finalConfig, url, cached)
+      return cached.response
     }
 
+    try {
+      return await this.send<T>(requestId, dedupeKey, finalConfig.signal, controller =>
+        this.fetchAndCache<T>(controller, cacheKey, sharedConfig, url, cached))
+    }
+    catch (error) {
+      // A caller that gave up wants no answer, not a stale one.
+      if (cached
+        && (strategy === 'network-first' || strategy === 'stale-if-error')
+        && (error instanceof FetchesNetworkError || error instanceof FetchesTimeoutError)
+        && !isCancellation(error, finalConfig.signal)) {
+        return cached.response
+      }
+      throw error
+    }
+  }
+
+  private async send<T>(
+    requestId: string,
+    dedupeKey: string | undefined,
+    signal: AbortSignal | null | undefined,
+    run: (controller: AbortController) => Promise<FetchesResponse<T>>,
+  ): Promise<FetchesResponse<T>> {
+    if (dedupeKey !== undefined)
+      return this.joinInflight(requestId, dedupeKey, signal, run)
+
     const controller = new AbortController()
     this.activeRequests.set(requestId, controller)
 
     try {
-      const response = await this.executeRequest<T>({
-        config: finalConfig,
+      return await run(controller)
+    }
+    finally {
+      this.activeRequests.delete(requestId)
+    }
+  }
+
+  // Every caller gets its own controller under its requestId, so cancelling
+  // one caller, through cancelRequest or its own signal, only rejects that
+  // caller; the shared request is aborted once the last subscriber has gone.
+  private async joinInflight<T>(
+    requestId: string,
+    key: string,
+    signal: AbortSignal | null | undefined,
+    run: (controller: AbortController) => Promise<FetchesResponse<T>>,
+  ): Promise<FetchesResponse<T>> {
+    let inflight = this.inflightRequests.get(key)
+
+    if (!inflight) {
+      const controller = new AbortController()
+      const promise = run(controller).finally(() => {
+        if (this.inflightRequests.get(key)?.promise === promise) {
+          this.inflightRequests.delete(key)
+        }
+      })
+      promise.catch(() => {})
+
+      inflight = { promise, controller, subscribers: 0 }
+      this.inflightRequests.set(key, inflight)
+    }
+
+    const shared = inflight
+    const caller = new AbortController()
+    const callerSignal = combineSignals(caller.signal, signal)
+    shared.subscribers++
+    this.activeRequests.set(requestId, caller)
+
+    try {
+      return await new Promise<FetchesResponse<T>>((resolve, reject) => {
+        if (callerSignal.aborted) {
+          reject(this.normalizeError(callerSignal.reason))
+          return
+        }
+        callerSignal.addEventListener('abort', () => reject(this.normalizeError(callerSignal.reason)), { once: true })
+        shared.promise.then(response => resolve(copyResponse(response)), reject)
+      })
+    }
+    finally {
+      this.activeRequests.delete(requestId)
+      shared.subscribers--
+
+      if (callerSignal.aborted && shared.subscribers === 0) {
+        if (this.inflightRequests.get(key) === shared) {
+          this.inflightRequests.delete(key)
+        }
+        shared.controller.abort()
+      }
+    }
+  }
+
+  private async fetchAndCache<T>(
+    controller: AbortController,
+    cacheKey: string,
+    config: RequestConfig,
+    url: string,
+    cached: CacheLookup<T> | null,
+  ): Promise<FetchesResponse<T>> {
+    const policy = config.cachePolicy ?? this.cachePolicy
+    const conditional = cached !== null && cached.revalidatable && policy === 'http'
+
+    try {
+      const response = await this.dispatch<T>({
+        config: conditional ? this.withConditionalHeaders(config, cached.response.headers) : config,
         controller,
         url,
       })
+      await this.storeResponse(cacheKey, response, config, policy)
+      return response
+    }
+    catch (error) {
+      if (conditional && error instanceof FetchesResponseError && error.response.status === 304) {
+        const headers = mergeRevalidatedHeaders(cached.response.headers, error.response.headers)
+        const ttl = getFreshnessLifetime(headers, this.sharedCache)
+        const revalidated = await this.requestCache.revalidate<T>(cacheKey, error.response.headers, ttl, config)
+        if (revalidated)
+          return revalidated
+      }
+      throw error
+    }
+  }
+
+  private revalidateInBackground<T>(
+    cacheKey: string,
+    config: RequestConfig,
+    url: string,
+    cached: CacheLookup<T>,
+  ): void {
+    const dedupeKey = (config.dedupe ?? this.dedupe) ? this.getDedupeKey(cacheKey, config) : undefined
+
+    // The caller already has its response, so its signal no longer applies.
+    this.send<T>(crypto.randomUUID(), dedupeKey, undefined, controller =>
+      this.fetchAndCache<T>(controller, cacheKey, { ...config, signal: undefined }, url, cached))
+      .then(response => this.events.emit('revalidate', { key: cacheKey, url, response }))
+      .catch(error => this.events.emit('revalidate', { key: cacheKey, url, error }))
+  }
+
+  private async storeResponse<T>(
+    key: string,
+    response: FetchesResponse<T>,
+    config: RequestConfig,
+    policy: CachePolicy,
+  ): Promise<void> {
+    if (policy === 'ttl') {
+      await this.requestCache.set(key, response, config.cacheTime ?? this.cacheTtl, { tags: config.tags })
+      return
+    }
+
+    const requestHeaders = new Headers(config.headers)
+    if (!isStorable(response.headers, requestHeaders, this.sharedCache))
+      return
+
+    const ttl = getFreshnessLifetime(response.headers, this.sharedCache)
+    const revalidatable = hasValidators(response.headers)
+    if (ttl === 0 && !revalidatable)
+      return
+
+    await this.requestCache.set(key, response, ttl, {
+      vary: getVaryValues(response.headers, requestHeaders),
+      revalidatable,
+      tags: config.tags,
+    })
+  }
 
-      if (method === 'GET' && !finalConfig.skipCache) {
-        this.cache.set(cacheKey, response, finalConfig.cacheTime ?? 300000)
+  private withConditionalHeaders(config: RequestConfig, cachedHeaders: Headers): RequestConfig {
+    const headers = new Headers(config.headers)
+
+    Object.entries(getConditionalHeaders(cachedHeaders)).forEach(([name, value]) => {
+      if (!headers.has(name)) {
+        headers.set(name, value)
       }
-      else if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
-        const urlWithoutParams = url.split('?')[0]
-        this.cache.invalidate(new RegExp(`^(GET|HEAD):${urlWithoutParams}`))
+    })
+
+    return { ...config, headers }
+  }
+
+  // Credentials are added outside the scheduler, so a request waiting for a
+  // token refresh does not hold a slot that the refresh itself may need.
+  private async dispatch<T>(params: {
+    config: RequestConfig
+    controller: AbortController
+    url: string
+  }, replayed = false): Promise<FetchesResponse<T>> {
+    if (params.config.skipAuth)
+      return this.executeRequest<T>(params)
+
+    const { url, headers, version, sensitiveHeaders, sensitiveQuery } = await this.auth.apply(params.url, params.config.headers)
+
+    try {
+      return await this.executeRequest<T>({ ...params, url, config: { ...params.config, headers }, context: { sensitiveHeaders, sensitiveQuery } })
+    }
+    catch (error) {
+      // Errors carry the request as it was before auth, so neither API keys
+      // in the query nor custom credential headers reach error reports.
+      for (let cause: unknown = error; cause instanceof FetchesError; cause = cause.cause) {
+        cause.url = params.url
+        if (cause.config) {
+          cause.config = params.config
+        }
+      }
+      if (replayed || !this.auth.canRefresh(error as Error))
+        throw error
+
+      try {
+        await this.auth.refresh(version, error as Error)
+      }
+      catch {
+        throw error
       }
+      return this.dispatch<T>(params, true)
+    }
+  }
+
+  // Every attempt queues on its own, so a request backing off between
+  // retries frees its slot and each response feeds the adaptive limits.
+  private async schedule<T>(
+    url: string,
+    config: RequestConfig,
+    signal: AbortSignal,
+    run: () => Promise<FetchesResponse<T>>,
+  ): Promise<FetchesResponse<T>> {
+    if (!this.scheduler)
+      return run()
+
+    const scheduler = this.scheduler
 
+    try {
+      const response = await scheduler.schedule(url, run, { priority: config.queuePriority, signal })
+      scheduler.observe(url, response.status, response.headers)
       return response
     }
-    finally {
-      this.activeRequests.delete(requestId)
+    catch (error) {
+      if (error instanceof FetchesResponseError) {
+        scheduler.observe(url, error.response.status, error.response.headers)
+      }
+      throw error
     }
   }
 
   private async executeRequest<T>({
     config,
-  controller,
-  url,
+    controller,
+    url,
+    context = { sensitiveHeaders: [], sensitiveQuery: [] },
   }: {
     config: RequestConfig
     controller: AbortController
     url: string
+    context?: FetchesAdapterContext
   }): Promise<FetchesResponse<T>> {
     const method = (config.method ?? 'GET').toUpperCase()
     let attempt = 0
-    const maxAttempts = this.retryConfig?.attempts ?? 1
+    let previousDelay = 0
+    const retryConfig = config.retry === false ? undefined : config.retry ?? this.retryConfig
+    const maxAttempts = retryConfig?.attempts ?? 1
+    const deadline = new Deadline(config.totalTimeout ?? this.totalTimeout, 'total')
+    const requestSignal = combineSignals(controller.signal, config.signal, deadline.signal)
 
-    while (attempt < maxAttempts) {
-      try {
-        const transformedConfig = await this.applyRequestTransformers(config)
+    try {
+      while (attempt < maxAttempts) {
+        const attemptDeadline = new Deadline()
+        const phaseDeadline = new Deadline()
+        const signal = combineSignals(requestSignal, attemptDeadline.signal, phaseDeadline.signal)
 
-        const body = this.prepareRequestBody(transformedConfig.data)
-        const contentType = this.getContentType(transformedConfig.data)
-        const headers = new Headers(transformedConfig.headers || {})
+        try {
+          return await this.schedule<T>(url, config, requestSignal, async () => {
+            // Time spent waiting in the queue only counts against the total.
+            attemptDeadline.arm(config.timeout ?? this.timeout, 'attempt')
+            const body = this.prepareRequestBody(config.data)
+            const contentType = this.getContentType(config.data)
+            const headers = new Headers(config.headers || {})
+
+            if (contentType && !headers.has('Content-Type')) {
+              headers.set('Content-Type', contentType)
+            }
 
-        if (contentType && !headers.has('Content-Type')) {
-          headers.set('Content-Type', contentType)
-        }
+            const fetchConfig: RequestInit = {
+              method,
+              headers,
+              body,
+              signal,
+              credentials: config.credentials,
+              cache: config.cache,
+              redirect: config.redirect,
+              referrer: config.referrer,
+              referrerPolicy: config.referrerPolicy,
+              integrity: config.integrity,
+              keepalive: config.keepalive,
+              mode: config.mode,
+            }
 
-        const fetchConfig: RequestInit = {
-          method,
-          headers,
-          body,
-          signal: controller.signal,
-          credentials: transformedConfig.credentials,
-          cache: transformedConfig.cache,
-          redirect: transformedConfig.redirect,
-          referrer: transformedConfig.referrer,
-          referrerPolicy: transformedConfig.referrerPolicy,
-          integrity: transformedConfig.integrity,
-          keepalive: transformedConfig.keepalive,
-          mode: transformedConfig.mode,
+            return this.withCircuitBreaker(url, config, signal, async () => {
+              phaseDeadline.arm(config.headersTimeout ?? this.headersTimeout, 'headers')
+              const response = await this.performRequest(url, fetchConfig, context, config.onUploadProgress)
+              phaseDeadline.arm(config.bodyTimeout ?? this.bodyTimeout, 'body')
+              return this.processResponse<T>(response, config)
+            })
+          })
         }
+        catch (error) {
+          const normalizedError = this.normalizeError(getTimeoutError(signal) ?? error, {
+            config,
+            url,
+            method,
+            attempt: attempt + 1,
+          })
+          const context: RetryContext = {
+            attempt: attempt + 1,
+            method,
+            response: normalizedError instanceof FetchesResponseError ? normalizedError.response : undefined,
+          }
 
-        const response = await this.performRequest(url, fetchConfig, transformedConfig.timeout ?? this.timeout)
+          // Rejected credentials are renewed once in dispatch instead.
+          const refreshable = !config.skipAuth && this.auth.canRefresh(normalizedError)
+          if (requestSignal.aborted || refreshable || !this.shouldRetry(normalizedError, context, retryConfig, maxAttempts)) {
+            throw normalizedError
+          }
 
-        const processedResponse = await this.processResponse<T>(
-          response,
-          transformedConfig,
-          url,
-        )
+          const delay = getRetryDelay(retryConfig!, attempt, previousDelay, context.response)
+          if (delay === undefined) {
+            throw normalizedError
+          }
 
-        return this.applyResponseInterceptors(processedResponse)
-      }
-      catch (error) {
-        if (!this.shouldRetry(error as Error, attempt, maxAttempts)) {
-          throw this.normalizeError(error)
+          retryConfig!.onRetry?.(normalizedError, { ...context, delay })
+          await this.delay(delay, requestSignal)
+          previousDelay = delay
+          attempt++
+        }
+        finally {
+          attemptDeadline.clear()
+          phaseDeadline.clear()
         }
-
-        await this.delay(attempt)
-        attempt++
       }
     }
+    catch (error) {
+      throw this.normalizeError(getTimeoutError(requestSignal) ?? error, {
+        config,
+        url,
+        method,
+        attempt: attempt + 1,
+      })
+    }
+    finally {
+      deadline.clear()
+    }
 
     throw new Error('Max retry attempts reached')
   }
 
-  private async applyRequestInterceptors(config: RequestConfig): Promise<RequestConfig> {
-    let resultConfig = { ...config }
-
-    for (const interceptor of this.requestInterceptors) {
-      if (interceptor.onFulfilled) {
-        try {
-          resultConfig = await interceptor.onFulfilled(resultConfig)
-        }
-        catch (error) {
-          if (interceptor.onRejected) {
-            await interceptor.onRejected(error as Error)
-          }
-          throw error
-        }
-      }
-    }
-
-    return resultConfig
-  }
+  private async withCircuitBreaker<T>(
+    url: string,
+    config: RequestConfig,
+    signal: AbortSignal,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.circuitBreaker)
+      return run()
 
-  private async applyResponseInterceptors<T>(response: FetchesResponse<T>): Promise<FetchesResponse<T>> {
-    let resultResponse = response
+    const key = this.circuitBreaker.getKey(url, config)
+    this.circuitBreaker.acquire(key)
 
-    for (const interceptor of this.responseInterceptors) {
-      if (interceptor.onFulfilled) {
-        try {
-          resultResponse = await interceptor.onFulfilled(resultResponse) as FetchesResponse<T>
-        }
-        catch (error) {
-          if (interceptor.onRejected) {
-            await interceptor.onRejected(error as Error)
-          }
-          throw error
-        }
+    try {
+      const result = await run()
+      this.circuitBreaker.record(key)
+      return result
+    }
+    catch (error) {
+      // Timeouts abort the signal too, but unlike a cancellation they count
+      // as a failure of the upstream.
+      const timeoutError = getTimeoutError(signal)
+      if (signal.aborted && !timeoutError) {
+        this.circuitBreaker.release(key)
       }
+      else {
+        this.circuitBreaker.record(key, this.normalizeError(timeoutError ?? error))
+      }
+      throw error
     }
-
-    return resultResponse
   }
 
   private async applyRequestTransformers(
@@ -300,6 +825,13 @@ class Fetches {
     return transformedConfig
   }
 
+  private async applyResponseTransformers(response: Response, data: unknown): Promise<any> {
+    for (const transformer of this.responseTransformers) {
+      data = await transformer(response, data)
+    }
+    return data
+  }
+
   private prepareRequestBody(data: any): BodyInit | null | undefined {
     if (data === undefined || data === null) {
       return null
@@ -351,59 +883,43 @@ class Fetches {
   private async performRequest(
     url: string,
     config: RequestInit,
-    timeout: number,
+    context: FetchesAdapterContext,
+    onUploadProgress?: (progressEvent: FetchesProgressEvent) => void,
   ): Promise<Response> {
-    const timeoutId = setTimeout(() => {
-      const signal = config.signal as AbortSignal
-      if (signal && !signal.aborted) {
-        const controller = new AbortController()
-        const abortError = new DOMException('Timeout', 'TimeoutError')
-        controller.abort(abortError)
-        signal.dispatchEvent(new Event('abort'))
-      }
-    }, timeout)
+    const send = (init: RequestInit): Promise<Response> => this.adapter ? this.adapter(url, init, context) : fetch(url, init)
 
-    try {
-      const response = await fetch(url, config)
-      clearTimeout(timeoutId)
-      return response
-    }
-    catch (error) {
-      clearTimeout(timeoutId)
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        if (error.message === 'Timeout') {
-          throw new FetchesTimeoutError(
-            `Request timed out after ${timeout}ms`,
-          )
-        }
-      }
-      throw error
-    }
+    if (!onUploadProgress || config.body === undefined || config.body === null)
+      return send(config)
+
+    // Browsers only stream request bodies over HTTP/2, so they keep using XHR
+    // unless a custom adapter was given.
+    if (supportsRequestStreams() && !isBrowser())
+      return send(await trackUploadProgress(config, onUploadProgress))
+
+    if (!this.adapter && typeof XMLHttpRequest !== 'undefined')
+      return sendWithXHR(url, config, onUploadProgress)
+
+    return send(config)
   }
 
   private async processResponse<T>(
     response: Response,
     config: RequestConfig,
   ): Promise<FetchesResponse<T>> {
-    const contentType = response.headers.get('content-type')
-    let data: any
-
-    if (contentType?.includes('application/json')) {
-      data = await response.json()
-    }
-    else if (contentType?.includes('multipart/form-data')) {
-      data = await response.formData()
-    }
-    else if (contentType?.includes('application/x-www-form-urlencoded')) {
-      data = await response.formData()
-    }
-    else {
-      data = await response.text()
+    if (config.onDownloadProgress) {
+      response = trackDownloadProgress(response, config.onDownloadProgress)
     }
 
-    for (const transformer of this.responseTransformers) {
-      data = await transformer(response, data)
-    }
+    // Error bodies are always buffered so FetchesResponseError carries them.
+    // Bodiless responses, like a 304 answering a revalidation, are not read
+    // whatever their Content-Type says.
+    const bodiless = NULL_BODY_STATUSES.includes(response.status) || config.method?.toUpperCase() === 'HEAD'
+    const body = bodiless
+      ? undefined
+      : response.ok && config.responseType === 'ndjson'
+        ? this.createNDJSONStream(response, config)
+        : await this.readBody(response, response.ok ? config.responseType : undefined)
+    const data = await this.applyResponseTransformers(response, body)
 
     const fetchesResponse: FetchesResponse<T> = {
       data,
@@ -417,54 +933,161 @@ class Fetches {
       throw new FetchesResponseError(response, data)
     }
 
-    if (config.validatorSchema && (config.validateResponse ?? this.validateResponse)) {
+    if (config.validatorSchema
+      && config.responseType !== 'stream'
+      && config.responseType !== 'ndjson'
+      && (config.validateResponse ?? this.validateResponse)) {
+      fetchesResponse.data = await this.validateData<T>(data, config)
+    }
+
+    return fetchesResponse
+  }
+
+  private createNDJSONStream(response: Response, config: RequestConfig): NDJSONStream {
+    const validate = config.validatorSchema && (config.validateResponse ?? this.validateResponse)
+      ? (value: unknown) => this.validateData(value, config)
+      : (value: unknown) => value
+
+    return new NDJSONStream(response.body ?? new ReadableStream(), validate, config.ndjsonErrorMode)
+  }
+
+  private async decodeEvent<T>(data: string, config: SSEConfig<T>): Promise<T> {
+    let value: unknown = data
+
+    if (config.json ?? config.validatorSchema !== undefined) {
       try {
-        const validatorType = config.validatorType ?? this.validatorType
-        const validator = ValidatorFactory.createValidator(validatorType)
-        fetchesResponse.data = validator.validate(data, config.validatorSchema) as T
+        value = JSON.parse(data)
       }
       catch (error) {
-        throw new FetchesValidationError(
-          `Response validation failed: ${(error as Error).message}`,
-        )
+        throw new FetchesValidationError(`Event data is not valid JSON: ${(error as Error).message}`, { data }, {
+          cause: error,
+        })
       }
     }
 
-    return fetchesResponse
+    if (!config.validatorSchema || !(config.validateResponse ?? this.validateResponse))
+      return value as T
+
+    return this.validateData<T>(value, config)
   }
 
-  private shouldRetry(
-    error: Error,
-    attempt: number,
-    maxAttempts: number,
-  ): boolean {
-    if (attempt >= maxAttempts - 1)
-      return false
-    if (!this.retryConfig?.shouldRetry) {
-      return (
-        error instanceof FetchesNetworkError
-        || error instanceof FetchesTimeoutError
+  // Runs once per request, ahead of caching, retries and transformers. The
+  // validator output replaces the original values only with coerceRequest.
+  private async validateRequest(config: RequestConfig): Promise<RequestConfig> {
+    const validated = { ...config }
+
+    if (config.requestSchema !== undefined) {
+      const data = await this.validateRequestValue(config.data, config.requestSchema, 'data', config)
+      if (config.coerceRequest) {
+        validated.data = data
+      }
+    }
+
+    if (config.paramsSchema !== undefined) {
+      const params = await this.validateRequestValue(config.params ?? {}, config.paramsSchema, 'params', config)
+      if (config.coerceRequest) {
+        validated.params = params as Record<string, any>
+      }
+    }
+
+    return validated
+  }
+
+  private async validateRequestValue(
+    value: unknown,
+    schema: unknown,
+    target: RequestValidationTarget,
+    config: RequestConfig,
+  ): Promise<unknown> {
+    try {
+      const validator = await ValidatorFactory.createValidator(schema, config.validatorType ?? this.validatorType)
+      return await validator.validate(value, schema)
+    }
+    catch (error) {
+      throw new FetchesRequestValidationError(
+        `Invalid request ${target}: ${(error as Error).message}`,
+        target,
+        { issues: error instanceof FetchesValidationError ? error.issues : [], data: value },
+        { config, method: config.method?.toUpperCase(), cause: error },
       )
     }
-    return this.retryConfig.shouldRetry(error)
   }
 
-  private async delay(attempt: number): Promise<void> {
-    const { backoff, initialDelay, maxDelay } = this.retryConfig!
-    let delay = initialDelay
+  // Adapters already throw a FetchesValidationError with the issues found, so
+  // only unexpected failures, such as an unsupported schema, are wrapped here.
+  private async validateData<T>(data: unknown, config: RequestConfig): Promise<T> {
+    try {
+      const validator = await ValidatorFactory.createValidator(
+        config.validatorSchema,
+        config.validatorType ?? this.validatorType,
+      )
+      return await validator.validate(data, config.validatorSchema) as T
+    }
+    catch (error) {
+      if (error instanceof FetchesValidationError)
+        throw error
 
-    if (backoff === 'exponential') {
-      delay = initialDelay * 2 ** attempt
+      throw new FetchesValidationError(
+        `Validation failed: ${(error as Error).message}`,
+        { data },
+        { cause: error },
+      )
     }
-    else {
-      delay = initialDelay * (attempt + 1)
+  }
+
+  private async readBody(response: Response, responseType?: ResponseType): Promise<any> {
+    switch (responseType) {
+      case 'json': {
+        const text = await response.text()
+        return text ? JSON.parse(text) : undefined
+      }
+      case 'text':
+        return response.text()
+      case 'blob':
+        return response.blob()
+      case 'arrayBuffer':
+        return response.arrayBuffer()
+      case 'stream':
+        return response.body
+    }
+
+    const contentType = response.headers.get('content-type')
+
+    if (contentType?.includes('application/json')) {
+      return response.json()
+    }
+    else if (contentType?.includes('multipart/form-data')) {
+      return response.formData()
+    }
+    else if (contentType?.includes('application/x-www-form-urlencoded')) {
+      return response.formData()
     }
 
-    if (maxDelay) {
-      delay = Math.min(delay, maxDelay)
+    return response.text()
+  }
+
+  private shouldRetry(
+    error: Error,
+    context: RetryContext,
+    retryConfig: RetryConfig | undefined,
+    maxAttempts: number,
+  ): boolean {
+    if (!retryConfig || context.attempt >= maxAttempts)
+      return false
+    if (!retryConfig.shouldRetry) {
+      return isRetryable(error, context, retryConfig)
     }
+    return retryConfig.shouldRetry(error, context)
+  }
 
-    await new Promise(resolve => setTimeout(resolve, delay))
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, ms)
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      }, { once: true })
+    })
   }
 
   private buildUrl(
@@ -513,25 +1136,61 @@ class Fetches {
     method: string,
     url: string,
     data?: any,
+    responseType?: ResponseType,
   ): string {
-    return `${method}:${url}:${data ? JSON.stringify(data) : ''}`
+    const key = `${method}:${url}:${data ? JSON.stringify(data) : ''}`
+    return responseType ? `${key}:${responseType}` : key
   }
 
-  private normalizeError(error: unknown): Error {
-    if (
-      error instanceof FetchesTimeoutError
-      || error instanceof FetchesNetworkError
-      || error instanceof FetchesValidationError
-      || error instanceof FetchesResponseError
-    ) {
-      return error
+  // Requests are only shared when everything that shapes the response is the
+  // same; schemas are compared by identity.
+  private getDedupeKey(cacheKey: string, config: RequestConfig): string {
+    const headers = [...new Headers(config.headers)].map(([name, value]) => `${name}=${value}`).join('&')
+    const schema = config.validatorSchema
+    let schemaId: number | undefined
+
+    if ((typeof schema === 'object' && schema !== null) || typeof schema === 'function') {
+      schemaId = this.schemaIds.get(schema)
+      if (schemaId === undefined) {
+        schemaId = this.nextSchemaId++
+        this.schemaIds.set(schema, schemaId)
+      }
     }
+    return [
+      cacheKey,
+      headers,
+      schemaId,
+      config.validateResponse,
+      config.validatorType,
+      config.skipAuth,
+      config.timeout,
+      config.totalTimeout,
+      config.headersTimeout,
+      config.bodyTimeout,
+    ].join('|')
+  }
+
+  // Keeps the original error as the cause and attaches the request context
+  // that the place it was thrown did not know about.
+  private normalizeError(error: unknown, context: FetchesErrorContext = {}): FetchesError {
+    let normalized: FetchesError
 
-    if (error instanceof Error) {
-      return new FetchesNetworkError(error.message)
+    if (error instanceof FetchesError) {
+      normalized = error
     }
+    else if (error instanceof Error) {
+      normalized = new FetchesNetworkError(error.message, { cause: error })
+    }
+    else {
+      normalized = new FetchesError('Unknown error occurred', 'ERR_UNKNOWN', { cause: error })
+    }
+
+    normalized.config ??= context.config
+    normalized.url ??= context.url
+    normalized.method ??= context.method
+    normalized.attempt ??= context.attempt
 
-    return new Error('Unknown error occurred')
+    return normalized
   }
 }
 
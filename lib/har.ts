@@ -0,0 +1,282 @@
+import type {
+  FetchesAdapter,
+  FetchesAdapterContext,
+  HarAdapterConfig,
+  HarEntry,
+  HarLog,
+  HarMode,
+  HarNameValue,
+} from './types.js'
+import { FetchesReplayMissError, SENSITIVE_HEADERS } from './errors.js'
+import { NULL_BODY_STATUSES } from './http-cache.js'
+
+const REDACTED = '[REDACTED]'
+
+function isTextual(mimeType: string): boolean {
+  return mimeType === '' || /^text\/|json|xml|javascript|x-www-form-urlencoded/.test(mimeType)
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0))
+}
+
+type HarPostData = NonNullable<HarEntry['request']['postData']>
+type EncodedBody = Pick<HarPostData, 'text' | '_encoding'>
+
+// Bodies that are not valid UTF-8 text are kept as base64, so binary uploads
+// are recorded and matched byte for byte.
+function encodeRequestBody(bytes: Uint8Array, mimeType: string): EncodedBody {
+  if (isTextual(mimeType)) {
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes) }
+    }
+    catch {}
+  }
+  return { text: toBase64(bytes), _encoding: 'base64' }
+}
+
+// Only the named parameters change, so other URLs are stored as sent.
+function redactQuery(url: string, names: string[]): string {
+  const queryStart = url.indexOf('?')
+  if (queryStart === -1 || names.length === 0)
+    return url
+
+  const hashStart = url.indexOf('#', queryStart)
+  const queryEnd = hashStart === -1 ? url.length : hashStart
+  const params = new URLSearchParams(url.slice(queryStart + 1, queryEnd))
+  const present = names.filter(name => params.has(name))
+  if (present.length === 0)
+    return url
+
+  present.forEach(name => params.set(name, REDACTED))
+  return `${url.slice(0, queryStart + 1)}${params}${url.slice(queryEnd)}`
+}
+
+function toNameValues(headers: Headers, redact: string[]): HarNameValue[] {
+  const values: HarNameValue[] = []
+  headers.forEach((value, name) => {
+    values.push({ name, value: redact.includes(name) ? REDACTED : value })
+  })
+  return values
+}
+
+// FormData and other bodies are encoded the way fetch would send them, so
+// the recorded bytes and the ones sent upstream are the same.
+async function readRequestBody(body: BodyInit | null | undefined): Promise<{
+  bytes?: Uint8Array<ArrayBuffer>
+  contentType?: string
+}> {
+  if (body === undefined || body === null)
+    return {}
+
+  const encoded = new Response(body)
+  return {
+    bytes: new Uint8Array(await encoded.arrayBuffer()),
+    contentType: encoded.headers.get('Content-Type') ?? undefined,
+  }
+}
+
+function toResponse(entry: HarEntry): Response {
+  const { status, statusText, headers, content } = entry.response
+  const body = content.text === undefined || NULL_BODY_STATUSES.includes(status)
+    ? null
+    : content.encoding === 'base64' ? fromBase64(content.text) : content.text
+
+  return new Response(body, {
+    status,
+    statusText,
+    headers: headers.map(({ name, value }) => [name, value]),
+  })
+}
+
+// Records the traffic of a Fetches instance to a HAR 1.2 file and serves it
+// back later. Every attempt is an entry, so retries replay as they happened.
+// `record` starts a new file, `replay` never touches the network, and
+// `record-new` replays what it has and records the rest. Responses are read
+// in full before they are returned, so endless streams cannot be recorded.
+export class HarAdapter {
+  public readonly adapter: FetchesAdapter = (url, init, context) => this.handle(url, init, context)
+  private readonly config: HarAdapterConfig
+  private readonly mode: HarMode
+  private readonly redactHeaders: string[]
+  private readonly used = new Set<HarEntry>()
+  private entries?: Promise<HarEntry[]>
+
+  constructor(config: HarAdapterConfig) {
+    this.config = config
+    this.mode = config.mode ?? 'replay'
+    this.redactHeaders = (config.redactHeaders ?? SENSITIVE_HEADERS).map(name => name.toLowerCase())
+  }
+
+  // Writes the recorded entries; a no-op in replay mode.
+  async save(): Promise<void> {
+    if (this.mode === 'replay')
+      return
+
+    const entries = await this.load()
+    const { mkdir, writeFile } = await import('node:fs/promises')
+    const { dirname } = await import('node:path')
+    const har: HarLog = {
+      log: {
+        version: '1.2',
+        creator: { name: 'fetches', version: '1.0.0' },
+        entries,
+      },
+    }
+
+    await mkdir(dirname(this.config.path), { recursive: true })
+    await writeFile(this.config.path, JSON.stringify(har, null, 2))
+  }
+
+  private load(): Promise<HarEntry[]> {
+    this.entries ??= this.mode === 'record' ? Promise.resolve([]) : this.readEntries()
+    return this.entries
+  }
+
+  private async readEntries(): Promise<HarEntry[]> {
+    const { readFile } = await import('node:fs/promises')
+
+    try {
+      return (JSON.parse(await readFile(this.config.path, 'utf8')) as HarLog).log.entries
+    }
+    catch (error) {
+      if (this.mode === 'record-new' && (error as { code?: string }).code === 'ENOENT')
+        return []
+      throw error
+    }
+  }
+
+  private async handle(url: string, init: RequestInit, context?: FetchesAdapterContext): Promise<Response> {
+    const entries = await this.load()
+    const method = (init.method ?? 'GET').toUpperCase()
+    const headers = new Headers(init.headers)
+    const { bytes, contentType } = await readRequestBody(init.body)
+    const body = bytes && encodeRequestBody(bytes, headers.get('Content-Type') ?? contentType ?? '')
+    // Credentials set by Fetches are never written, whatever their name, and
+    // redacted URLs keep matching after the key is rotated.
+    const redact = [...this.redactHeaders, ...context?.sensitiveHeaders ?? []]
+    const recordedUrl = redactQuery(url, [...this.config.redactQuery ?? [], ...context?.sensitiveQuery ?? []])
+
+    if (this.mode !== 'record') {
+      const entry = this.find(entries, method, recordedUrl, headers, body)
+      if (entry)
+        return toResponse(entry)
+      if (this.mode === 'replay')
+        throw new FetchesReplayMissError(`No recorded response for ${method} ${recordedUrl}`)
+    }
+
+    if (contentType && !headers.has('Content-Type')) {
+      headers.set('Content-Type', contentType)
+    }
+
+    const startedAt = Date.now()
+    const upstreamInit = { ...init, headers, body: bytes }
+    const response = await (this.config.adapter
+      ? this.config.adapter(url, upstreamInit, context)
+      : fetch(url, upstreamInit))
+    const responseBytes = new Uint8Array(await response.arrayBuffer())
+    const entry = this.createEntry({ startedAt, method, url: recordedUrl, headers, body, bytes, redact }, response, responseBytes)
+    entries.push(entry)
+
+    return toResponse(entry)
+  }
+
+  // Identical requests are answered with their recorded responses in order,
+  // and the last one is repeated once they run out.
+  private find(
+    entries: HarEntry[],
+    method: string,
+    url: string,
+    headers: Headers,
+    body: EncodedBody | undefined,
+  ): HarEntry | undefined {
+    const matching = entries.filter(entry => this.matches(entry, method, url, headers, body))
+    const entry = matching.find(candidate => !this.used.has(candidate)) ?? matching.at(-1)
+
+    if (entry) {
+      this.used.add(entry)
+    }
+    return entry
+  }
+
+  // Redacted headers can only be matched on being present.
+  private matches(
+    entry: HarEntry,
+    method: string,
+    url: string,
+    headers: Headers,
+    body: EncodedBody | undefined,
+  ): boolean {
+    const { request } = entry
+    if (request.method !== method || request.url !== url)
+      return false
+    if ((this.config.match?.body ?? true)
+      && ((request.postData?.text ?? '') !== (body?.text ?? '') || request.postData?._encoding !== body?._encoding)) {
+      return false
+    }
+
+    return (this.config.match?.headers ?? []).every((name) => {
+      const recorded = request.headers.find(header => header.name === name.toLowerCase())?.value
+      const actual = headers.get(name) ?? undefined
+      return recorded === REDACTED ? actual !== undefined : recorded === actual
+    })
+  }
+
+  private createEntry(
+    request: {
+      startedAt: number
+      method: string
+      url: string
+      headers: Headers
+      body?: EncodedBody
+      bytes?: Uint8Array
+      redact: string[]
+    },
+    response: Response,
+    responseBytes: Uint8Array,
+  ): HarEntry {
+    const { startedAt, method, url, headers, body, bytes, redact } = request
+    const time = Date.now() - startedAt
+    const mimeType = response.headers.get('Content-Type') ?? ''
+    const content = isTextual(mimeType)
+      ? { text: new TextDecoder().decode(responseBytes) }
+      : { text: toBase64(responseBytes), encoding: 'base64' as const }
+
+    return {
+      startedDateTime: new Date(startedAt).toISOString(),
+      time,
+      request: {
+        method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: toNameValues(headers, redact),
+        queryString: [...new URL(url, 'http://localhost').searchParams].map(([name, value]) => ({ name, value })),
+        cookies: [],
+        headersSize: -1,
+        bodySize: bytes?.length ?? 0,
+        ...(body !== undefined && { postData: { mimeType: headers.get('Content-Type') ?? '', ...body } }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: toNameValues(response.headers, redact),
+        cookies: [],
+        content: { size: responseBytes.length, mimeType, ...content },
+        redirectURL: response.headers.get('Location') ?? '',
+        headersSize: -1,
+        bodySize: responseBytes.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+    }
+  }
+}
@@ -0,0 +1,173 @@
+export interface CacheControl {
+  maxAge?: number
+  sMaxAge?: number
+  noStore: boolean
+  noCache: boolean
+  private: boolean
+  public: boolean
+  mustRevalidate: boolean
+}
+
+// Statuses whose responses never carry a body.
+export const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+const HEURISTIC_FRACTION = 0.1
+const MAX_HEURISTIC_LIFETIME = 24 * 60 * 60 * 1000
+
+export function parseCacheControl(header: string | null): CacheControl {
+  const directives = new Map<string, string | undefined>()
+
+  for (const part of (header ?? '').split(',')) {
+    const [name, value] = part.split('=', 2).map(token => token.trim())
+    if (name) {
+      directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, ''))
+    }
+  }
+
+  const seconds = (name: string): number | undefined => {
+    const value = Number.parseInt(directives.get(name) ?? '', 10)
+    return Number.isNaN(value) ? undefined : value
+  }
+
+  return {
+    maxAge: seconds('max-age'),
+    sMaxAge: seconds('s-maxage'),
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    private: directives.has('private'),
+    public: directives.has('public'),
+    mustRevalidate: directives.has('must-revalidate') || directives.has('proxy-revalidate'),
+  }
+}
+
+function parseDate(value: string | null): number | undefined {
+  if (!value)
+    return undefined
+
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? undefined : time
+}
+
+export function hasValidators(headers: Headers): boolean {
+  return headers.has('etag') || headers.has('last-modified')
+}
+
+export function isStorable(
+  responseHeaders: Headers,
+  requestHeaders: Headers,
+  shared: boolean,
+): boolean {
+  const cacheControl = parseCacheControl(responseHeaders.get('cache-control'))
+
+  if (cacheControl.noStore || responseHeaders.get('vary')?.trim() === '*')
+    return false
+
+  if (shared) {
+    if (cacheControl.private)
+      return false
+
+    if (requestHeaders.has('authorization')
+      && !cacheControl.public
+      && !cacheControl.mustRevalidate
+      && cacheControl.sMaxAge === undefined) {
+      return false
+    }
+  }
+
+  return true
+}
+
+// Remaining freshness lifetime in milliseconds, following RFC 9111 section 4.2.
+export function getFreshnessLifetime(
+  headers: Headers,
+  shared: boolean,
+  now: number = Date.now(),
+): number {
+  const cacheControl = parseCacheControl(headers.get('cache-control'))
+
+  if (cacheControl.noCache)
+    return 0
+
+  const date = parseDate(headers.get('date')) ?? now
+  const age = Math.max(0, Number.parseInt(headers.get('age') ?? '0', 10) || 0) * 1000
+  let lifetime: number | undefined
+
+  if (shared && cacheControl.sMaxAge !== undefined) {
+    lifetime = cacheControl.sMaxAge * 1000
+  }
+  else if (cacheControl.maxAge !== undefined) {
+    lifetime = cacheControl.maxAge * 1000
+  }
+  else if (headers.has('expires')) {
+    const expires = parseDate(headers.get('expires'))
+    lifetime = expires === undefined ? 0 : expires - date
+  }
+  else {
+    const lastModified = parseDate(headers.get('last-modified'))
+    if (lastModified !== undefined && !cacheControl.mustRevalidate) {
+      lifetime = Math.min((date - lastModified) * HEURISTIC_FRACTION, MAX_HEURISTIC_LIFETIME)
+    }
+  }
+
+  return Math.max(0, (lifetime ?? 0) - age)
+}
+
+export function getVaryValues(
+  responseHeaders: Headers,
+  requestHeaders: Headers,
+): Record<string, string | null> | undefined {
+  const vary = responseHeaders.get('vary')
+  if (!vary)
+    return undefined
+
+  const values: Record<string, string | null> = {}
+
+  for (const name of vary.split(',')) {
+    const header = name.trim().toLowerCase()
+    if (header) {
+      values[header] = requestHeaders.get(header)
+    }
+  }
+
+  return values
+}
+
+export function varyMatches(
+  vary: Record<string, string | null> | undefined,
+  requestHeaders: Headers,
+): boolean {
+  if (!vary)
+    return true
+
+  return Object.entries(vary).every(([name, value]) => requestHeaders.get(name) === value)
+}
+
+export function getConditionalHeaders(headers: Headers): Record<string, string> {
+  const conditionalHeaders: Record<string, string> = {}
+  const etag = headers.get('etag')
+  const lastModified = headers.get('last-modified')
+
+  if (etag) {
+    conditionalHeaders['If-None-Match'] = etag
+  }
+  if (lastModified) {
+    conditionalHeaders['If-Modified-Since'] = lastModified
+  }
+
+  return conditionalHeaders
+}
+
+// Headers a 304 must not overwrite on the stored response (RFC 9111 section 3.2).
+const PRESERVED_HEADERS = new Set(['content-length', 'content-encoding', 'content-range', 'transfer-encoding'])
+
+export function mergeRevalidatedHeaders(stored: Headers, revalidated: Headers): Headers {
+  const headers = new Headers(stored)
+
+  revalidated.forEach((value, name) => {
+    if (!PRESERVED_HEADERS.has(name)) {
+      headers.set(name, value)
+    }
+  })
+
+  return headers
+}
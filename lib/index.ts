@@ -1,23 +1,103 @@
 import type {
+  AuthConfig,
+  AuthCredentials,
+  BuiltinValidatorType,
+  CacheEntry,
+  CachePolicy,
+  CacheStorageAdapter,
+  CacheStrategy,
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChangeEvent,
+  FetchesAdapter,
+  FetchesAdapterContext,
   FetchesConfig,
+  FetchesErrorCode,
+  FetchesErrorContext,
+  FetchesEvents,
+  FetchesProgressEvent,
   FetchesResponse,
+  HarAdapterConfig,
+  HarEntry,
+  HarLog,
+  HarMode,
+  InferSchema,
+  Interceptor,
+  InterceptorOptions,
+  InterceptorRegistry,
+  Middleware,
+  MiddlewareContext,
+  MockAdapterConfig,
+  MockReply,
+  MockRequest,
+  MockRouteOptions,
+  NDJSONErrorMode,
+  RateLimitRule,
   RequestConfig,
   RequestInterceptor,
+  RequestSchemaConfig,
   RequestTransformer,
+  RequestValidationTarget,
   ResponseInterceptor,
   ResponseTransformer,
+  ResponseType,
   RetryConfig,
+  RetryContext,
+  RetryJitter,
+  RevalidateEvent,
+  SchedulerConfig,
+  SchemaRequestConfig,
+  SerializedResponse,
+  ServerSentEvent,
+  SSEConfig,
+  StandardSchemaV1,
+  TimeoutBudget,
+  TusUploadConfig,
+  TusUploadStatus,
+  TypedClient,
+  UploadConfig,
+  UploadItem,
+  UploadManagerConfig,
+  UploadManagerEvents,
   UploadOptions,
+  UploadStatus,
+  ValidationErrorDetails,
+  ValidationIssue,
+  ValidatorAdapter,
   ValidatorType,
 } from './types.js'
+import { AuthManager } from './auth.js'
 import {
+  FetchesCacheMissError,
+  FetchesCircuitOpenError,
+  FetchesError,
   FetchesNetworkError,
+  FetchesReplayMissError,
+  FetchesRequestValidationError,
   FetchesResponseError,
+  FetchesStreamConsumedError,
   FetchesTimeoutError,
+  FetchesUploadError,
   FetchesValidationError,
+  isFetchesError,
+  isHttpError,
 } from './errors.js'
 import Fetches from './fetches.js'
+import { HarAdapter } from './har.js'
+import { InterceptorManager } from './interceptors.js'
+import { MockAdapter, MockRoute } from './mock.js'
+import { NDJSONStream } from './ndjson.js'
+import { FetchesEventSource } from './sse.js'
+import {
+  FileSystemCacheStorage,
+  IndexedDBCacheStorage,
+  MemoryCacheStorage,
+  WebStorageCacheStorage,
+} from './storage/index.js'
+import { TusUpload } from './tus.js'
+import { UploadManager } from './upload-manager.js'
 import { createUploader, uploadFile } from './upload.js'
+import { registerValidator, unregisterValidator } from './validators/factory.js'
 
 function createFetches(config?: FetchesConfig): Fetches {
   return new Fetches(config)
@@ -26,27 +106,107 @@ function createFetches(config?: FetchesConfig): Fetches {
 const defaultInstance = new Fetches()
 
 export {
+  AuthManager,
   createFetches,
   createUploader,
   Fetches,
   defaultInstance as fetches,
+  FetchesCacheMissError,
+  FetchesCircuitOpenError,
+  FetchesError,
+  FetchesEventSource,
   FetchesNetworkError,
+  FetchesReplayMissError,
+  FetchesRequestValidationError,
   FetchesResponseError,
+  FetchesStreamConsumedError,
   FetchesTimeoutError,
+  FetchesUploadError,
   FetchesValidationError,
+  FileSystemCacheStorage,
+  HarAdapter,
+  IndexedDBCacheStorage,
+  InterceptorManager,
+  isFetchesError,
+  isHttpError,
+  MemoryCacheStorage,
+  MockAdapter,
+  MockRoute,
+  NDJSONStream,
+  registerValidator,
+  TusUpload,
+  unregisterValidator,
   uploadFile,
+  UploadManager,
+  WebStorageCacheStorage,
 }
 
 export type {
+  AuthConfig,
+  AuthCredentials,
+  BuiltinValidatorType,
+  CacheEntry,
+  CachePolicy,
+  CacheStorageAdapter,
+  CacheStrategy,
+  CircuitBreakerConfig,
+  CircuitState,
+  CircuitStateChangeEvent,
+  FetchesAdapter,
+  FetchesAdapterContext,
   FetchesConfig,
+  FetchesErrorCode,
+  FetchesErrorContext,
+  FetchesEvents,
+  FetchesProgressEvent,
   FetchesResponse,
+  HarAdapterConfig,
+  HarEntry,
+  HarLog,
+  HarMode,
+  InferSchema,
+  Interceptor,
+  InterceptorOptions,
+  InterceptorRegistry,
+  Middleware,
+  MiddlewareContext,
+  MockAdapterConfig,
+  MockReply,
+  MockRequest,
+  MockRouteOptions,
+  NDJSONErrorMode,
+  RateLimitRule,
   RequestConfig,
   RequestInterceptor,
+  RequestSchemaConfig,
   RequestTransformer,
+  RequestValidationTarget,
   ResponseInterceptor,
   ResponseTransformer,
+  ResponseType,
   RetryConfig,
+  RetryContext,
+  RetryJitter,
+  RevalidateEvent,
+  SchedulerConfig,
+  SchemaRequestConfig,
+  SerializedResponse,
+  ServerSentEvent,
+  SSEConfig,
+  StandardSchemaV1,
+  TimeoutBudget,
+  TusUploadConfig,
+  TusUploadStatus,
+  TypedClient,
+  UploadConfig,
+  UploadItem,
+  UploadManagerConfig,
+  UploadManagerEvents,
   UploadOptions,
+  UploadStatus,
+  ValidationErrorDetails,
+  ValidationIssue,
+  ValidatorAdapter,
   ValidatorType,
 }
 
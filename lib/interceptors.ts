@@ -0,0 +1,68 @@
+import type { Interceptor, InterceptorOptions, InterceptorRegistry, RequestConfig } from './types.js'
+
+interface InterceptorEntry<T> {
+  id: number
+  interceptor: Interceptor<T>
+  scope?: object
+}
+
+// Keeps interceptors under ids that stay valid when others are removed.
+// Interceptors added through a scoped registry only run for requests made
+// with the same scope, i.e. through the client returned by `create()`.
+export class InterceptorManager<T> implements InterceptorRegistry<T> {
+  private entries: InterceptorEntry<T>[] = []
+  private nextId = 0
+
+  constructor(interceptors: Interceptor<T>[] = []) {
+    interceptors.forEach(interceptor => this.add(interceptor))
+  }
+
+  use(
+    onFulfilled?: Interceptor<T>['onFulfilled'],
+    onRejected?: Interceptor<T>['onRejected'],
+    options: InterceptorOptions = {},
+  ): number {
+    return this.add({ ...options, onFulfilled, onRejected })
+  }
+
+  eject(id: number): void {
+    this.entries = this.entries.filter(entry => entry.id !== id)
+  }
+
+  clear(): void {
+    this.entries = []
+  }
+
+  scoped(scope: object): InterceptorRegistry<T> {
+    return {
+      use: (onFulfilled, onRejected, options = {}) => this.add({ ...options, onFulfilled, onRejected }, scope),
+      eject: (id) => {
+        this.entries = this.entries.filter(entry => entry.id !== id || entry.scope !== scope)
+      },
+      clear: () => {
+        this.entries = this.entries.filter(entry => entry.scope !== scope)
+      },
+    }
+  }
+
+  // The interceptors that apply to a request, in the order they run. Like the
+  // url prefix, `runWhen` is checked once against the config the request
+  // started with.
+  select(config: RequestConfig, url: string, scope?: object): Interceptor<T>[] {
+    return this.entries
+      .filter(({ interceptor, scope: entryScope }) =>
+        (entryScope === undefined || entryScope === scope)
+        && (interceptor.urlPrefix === undefined
+          || url.startsWith(interceptor.urlPrefix)
+          || (config.url ?? '').startsWith(interceptor.urlPrefix))
+        && (interceptor.runWhen?.(config) ?? true))
+      .map(entry => entry.interceptor)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+  }
+
+  private add(interceptor: Interceptor<T>, scope?: object): number {
+    const id = this.nextId++
+    this.entries.push({ id, interceptor, scope })
+    return id
+  }
+}
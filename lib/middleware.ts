@@ -0,0 +1,31 @@
+import type { FetchesResponse, Interceptor, Middleware, MiddlewareContext } from './types.js'
+
+// Calls the middleware in registration order, each wrapping the ones after
+// it, with `handler` at the centre. `next` may be called more than once, for
+// middleware that repeats the rest of the pipeline.
+export function compose(
+  middleware: Middleware[],
+  handler: (context: MiddlewareContext) => Promise<FetchesResponse<any>>,
+): (context: MiddlewareContext) => Promise<FetchesResponse<any>> {
+  return (context) => {
+    const run = (index: number): Promise<FetchesResponse<any>> => {
+      if (index === middleware.length)
+        return handler(context)
+      return Promise.resolve().then(() => middleware[index](context, () => run(index + 1)))
+    }
+
+    return run(0)
+  }
+}
+
+// Chains interceptors like promise handlers: `onRejected` sees any earlier
+// error, and recovers from it by returning something other than an Error.
+export function runInterceptors<T>(interceptors: Interceptor<T>[], start: () => Promise<T>): Promise<T> {
+  return interceptors.reduce<Promise<T>>((promise, { onFulfilled, onRejected }) =>
+    promise.then(onFulfilled, onRejected && (async (error: Error) => {
+      const result = await onRejected(error)
+      if (result instanceof Error)
+        throw result
+      return result
+    })), Promise.resolve().then(start))
+}
@@ -0,0 +1,303 @@
+import type {
+  FetchesAdapter,
+  MaybePromise,
+  MockAdapterConfig,
+  MockReply,
+  MockRequest,
+  MockRouteOptions,
+} from './types.js'
+
+type MockHandler = (request: MockRequest, signal?: AbortSignal) => Promise<Response>
+type MockReplyHandler = (request: MockRequest) => MaybePromise<MockReply>
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b))
+    return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null)
+    return false
+  if (Array.isArray(a) !== Array.isArray(b))
+    return false
+
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length
+    && keys.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+}
+
+// Waits for `ms`, or until the request is aborted when no time is given.
+function wait(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const timer = ms === undefined ? undefined : setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+async function readBody(body: BodyInit | null | undefined): Promise<unknown> {
+  if (body === undefined || body === null)
+    return undefined
+  if (body instanceof FormData)
+    return body
+
+  const text = await new Response(body).text()
+  try {
+    return JSON.parse(text)
+  }
+  catch {
+    return text
+  }
+}
+
+function toResponse(reply: MockReply): Response {
+  const headers = new Headers(reply.headers)
+  const { body } = reply
+
+  if (body === undefined || body === null
+    || typeof body === 'string'
+    || body instanceof Blob
+    || body instanceof ArrayBuffer
+    || body instanceof FormData
+    || body instanceof URLSearchParams
+    || body instanceof ReadableStream) {
+    return new Response(body ?? null, { status: reply.status ?? 200, statusText: reply.statusText, headers })
+  }
+
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json')
+  }
+  return new Response(JSON.stringify(body), { status: reply.status ?? 200, statusText: reply.statusText, headers })
+}
+
+// Like fetch, aborting the request errors a body that is still being read.
+function abortableBody(response: Response, signal?: AbortSignal): Response {
+  if (!signal || !response.body)
+    return response
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      signal.addEventListener('abort', () => {
+        controller.error(signal.reason)
+        reader.cancel(signal.reason).catch(() => {})
+      }, { once: true })
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (signal.aborted)
+        return
+      if (done)
+        controller.close()
+      else
+        controller.enqueue(value)
+    },
+    cancel: reason => reader.cancel(reason),
+  })
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+// Relative patterns match the path, resolved against the baseURL when set.
+function createUrlMatcher(pattern: string | RegExp, baseURL?: string): (url: URL) => boolean {
+  if (pattern instanceof RegExp)
+    return url => pattern.test(url.href)
+
+  if (/^https?:\/\//.test(pattern))
+    return url => `${url.origin}${url.pathname}` === pattern
+
+  const path = pattern.startsWith('/') ? pattern : `/${pattern}`
+  if (baseURL) {
+    const expected = `${baseURL.replace(/\/$/, '')}${path}`
+    return url => `${url.origin}${url.pathname}` === expected
+  }
+  return url => url.pathname === path
+}
+
+function toParams(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {}
+  new Set(searchParams.keys()).forEach((key) => {
+    const values = searchParams.getAll(key)
+    params[key] = values.length === 1 ? values[0] : values
+  })
+  return params
+}
+
+export class MockRoute {
+  private readonly method: string
+  private readonly pattern: string | RegExp
+  private readonly matchUrl: (url: URL) => boolean
+  private readonly options: MockRouteOptions
+  private handler?: MockHandler
+  private latency = 0
+  private once = false
+  private calls = 0
+
+  constructor(method: string, pattern: string | RegExp, matchUrl: (url: URL) => boolean, options: MockRouteOptions) {
+    this.method = method.toUpperCase()
+    this.pattern = pattern
+    this.matchUrl = matchUrl
+    this.options = options
+  }
+
+  reply(status: number, body?: unknown, headers?: HeadersInit): this
+  reply(handler: MockReplyHandler): this
+  reply(statusOrHandler: number | MockReplyHandler, body?: unknown, headers?: HeadersInit): this {
+    const handler: MockReplyHandler = typeof statusOrHandler === 'function'
+      ? statusOrHandler
+      : () => ({ status: statusOrHandler, body, headers })
+
+    this.handler = async request => toResponse(await handler(request))
+    return this
+  }
+
+  replyOnce(status: number, body?: unknown, headers?: HeadersInit): this
+  replyOnce(handler: MockReplyHandler): this
+  replyOnce(statusOrHandler: number | MockReplyHandler, body?: unknown, headers?: HeadersInit): this {
+    this.once = true
+    return typeof statusOrHandler === 'function'
+      ? this.reply(statusOrHandler)
+      : this.reply(statusOrHandler, body, headers)
+  }
+
+  // Rejects like fetch does when the connection fails.
+  networkError(message = 'Failed to fetch'): this {
+    this.handler = async () => {
+      throw new TypeError(message)
+    }
+    return this
+  }
+
+  // Never answers, so the request runs into its own timeout.
+  timeout(): this {
+    this.handler = async (_request, signal) => {
+      await wait(undefined, signal)
+      throw new Error('Mock timeout was not aborted')
+    }
+    return this
+  }
+
+  delay(ms: number): this {
+    this.latency = ms
+    return this
+  }
+
+  get pending(): boolean {
+    return this.calls === 0
+  }
+
+  get exhausted(): boolean {
+    return this.once && this.calls > 0
+  }
+
+  matches(request: MockRequest, url: URL): boolean {
+    const { params, headers, body } = this.options
+
+    return (this.method === '*' || this.method === request.method)
+      && this.matchUrl(url)
+      && Object.entries(params ?? {}).every(([key, value]) =>
+        isDeepEqual(request.params[key], Array.isArray(value) ? value.map(String) : String(value)))
+      && Object.entries(headers ?? {}).every(([name, value]) => request.headers.get(name) === value)
+      && (body === undefined || (typeof body === 'function' ? body(request.body) : isDeepEqual(request.body, body)))
+  }
+
+  async respond(request: MockRequest, signal?: AbortSignal): Promise<Response> {
+    this.calls++
+
+    if (this.latency > 0) {
+      await wait(this.latency, signal)
+    }
+    if (!this.handler)
+      throw new Error(`No reply configured for mock ${this}`)
+
+    return this.handler(request, signal)
+  }
+
+  toString(): string {
+    return `${this.method} ${this.pattern}`
+  }
+}
+
+// A transport for tests: pass `mock.adapter` as the Fetches adapter and
+// requests are answered by the first matching route instead of the network,
+// while retries, caching, validation and interceptors run as usual.
+// Unmatched requests get a 404 naming the request.
+export class MockAdapter {
+  public readonly history: MockRequest[] = []
+  public readonly adapter: FetchesAdapter = (url, init) => this.handle(url, init)
+  private readonly config: MockAdapterConfig
+  private routes: MockRoute[] = []
+
+  constructor(config: MockAdapterConfig = {}) {
+    this.config = config
+  }
+
+  on(method: string, url: string | RegExp, options: MockRouteOptions = {}): MockRoute {
+    const route = new MockRoute(method, url, createUrlMatcher(url, this.config.baseURL), options)
+    this.routes.push(route)
+    return route
+  }
+
+  onAny(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('*', url, options)
+  }
+
+  onGet(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('GET', url, options)
+  }
+
+  onPost(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('POST', url, options)
+  }
+
+  onPut(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('PUT', url, options)
+  }
+
+  onPatch(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('PATCH', url, options)
+  }
+
+  onDelete(url: string | RegExp, options?: MockRouteOptions): MockRoute {
+    return this.on('DELETE', url, options)
+  }
+
+  // Throws when a route has not been called yet.
+  expectNoPendingMocks(): void {
+    const pending = this.routes.filter(route => route.pending)
+    if (pending.length > 0)
+      throw new Error(`Pending mocks: ${pending.join(', ')}`)
+  }
+
+  resetHistory(): void {
+    this.history.length = 0
+  }
+
+  reset(): void {
+    this.routes = []
+    this.resetHistory()
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const parsed = new URL(url, 'http://localhost')
+    const request: MockRequest = {
+      method: (init.method ?? 'GET').toUpperCase(),
+      url,
+      params: toParams(parsed.searchParams),
+      headers: new Headers(init.headers),
+      body: await readBody(init.body),
+    }
+    this.history.push(request)
+
+    const route = this.routes.find(route => !route.exhausted && route.matches(request, parsed))
+    if (!route)
+      return new Response(`No mock matches ${request.method} ${url}`, { status: 404, statusText: 'Not Found' })
+
+    const signal = init.signal ?? undefined
+    return abortableBody(await route.respond(request, signal), signal)
+  }
+}
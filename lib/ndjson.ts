@@ -0,0 +1,69 @@
+import type { MaybePromise, NDJSONErrorMode } from './types.js'
+import { FetchesStreamConsumedError, FetchesValidationError } from './errors.js'
+import { readLines } from './streams.js'
+
+// Parses newline-delimited JSON one record at a time. In 'skip' mode invalid
+// records are left out of the iteration and collected in `errors` instead.
+// The body is read as it is iterated, so it can only be consumed once.
+export class NDJSONStream<T = unknown> implements AsyncIterable<T> {
+  public readonly errors: FetchesValidationError[] = []
+
+  private readonly stream: ReadableStream<Uint8Array>
+  private readonly validate: (value: unknown) => MaybePromise<T>
+  private readonly mode: NDJSONErrorMode
+  private consumed = false
+
+  constructor(
+    stream: ReadableStream<Uint8Array>,
+    validate: (value: unknown) => MaybePromise<T>,
+    mode: NDJSONErrorMode = 'fail-fast',
+  ) {
+    this.stream = stream
+    this.validate = validate
+    this.mode = mode
+  }
+
+  async* [Symbol.asyncIterator](): AsyncIterator<T> {
+    if (this.consumed)
+      throw new FetchesStreamConsumedError('NDJSON stream has already been consumed; collect it with toArray() to reuse the records')
+    this.consumed = true
+
+    let line = 0
+
+    for await (const text of readLines(this.stream)) {
+      line++
+      if (!text.trim())
+        continue
+
+      let item: T
+      try {
+        item = await this.validate(JSON.parse(text))
+      }
+      catch (error) {
+        const validationError = new FetchesValidationError(
+          `Invalid record on line ${line}: ${(error as Error).message}`,
+          error instanceof FetchesValidationError
+            ? { issues: error.issues, data: error.data, line }
+            : { data: text, line },
+          { cause: error },
+        )
+
+        if (this.mode === 'fail-fast')
+          throw validationError
+
+        this.errors.push(validationError)
+        continue
+      }
+
+      yield item
+    }
+  }
+
+  async toArray(): Promise<T[]> {
+    const items: T[] = []
+    for await (const item of this) {
+      items.push(item)
+    }
+    return items
+  }
+}
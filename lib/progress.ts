@@ -0,0 +1,138 @@
+import type { FetchesProgressEvent } from './types.js'
+
+export function createProgressEvent(loaded: number, total?: number): FetchesProgressEvent {
+  const lengthComputable = total !== undefined && total > 0
+
+  return {
+    loaded,
+    total,
+    progress: lengthComputable ? Math.min(1, loaded / total) : undefined,
+    lengthComputable,
+  }
+}
+
+export function createProgressStream(
+  total: number | undefined,
+  onProgress: (event: FetchesProgressEvent) => void,
+): TransformStream<Uint8Array, Uint8Array> {
+  let loaded = 0
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength
+      controller.enqueue(chunk)
+      onProgress(createProgressEvent(loaded, total))
+    },
+  })
+}
+
+// Content-Length counts encoded bytes, while the body stream yields decoded
+// ones, so the total is only usable for identity-encoded responses.
+export function getContentLength(headers: Headers): number | undefined {
+  const encoding = headers.get('content-encoding')
+  if (encoding && encoding !== 'identity')
+    return undefined
+
+  const length = Number.parseInt(headers.get('content-length') ?? '', 10)
+  return Number.isNaN(length) ? undefined : length
+}
+
+export function trackDownloadProgress(
+  response: Response,
+  onProgress: (event: FetchesProgressEvent) => void,
+): Response {
+  if (!response.body)
+    return response
+
+  const body = response.body.pipeThrough(createProgressStream(getContentLength(response.headers), onProgress))
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  })
+}
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024
+
+// Blob.stream() may hand over the whole body in a single chunk, which would
+// leave only one progress event, so the blob is read in fixed-size slices.
+function streamBlob(blob: Blob): ReadableStream<Uint8Array> {
+  let offset = 0
+
+  return new ReadableStream({
+    async pull(controller) {
+      if (offset >= blob.size) {
+        controller.close()
+        return
+      }
+
+      const chunk = blob.slice(offset, offset + UPLOAD_CHUNK_SIZE)
+      offset += chunk.size
+      controller.enqueue(new Uint8Array(await chunk.arrayBuffer()))
+    },
+  })
+}
+
+let requestStreamsSupported: boolean | undefined
+
+// Runtimes without streaming request bodies either ignore the duplex option
+// or serialize the stream as a string, which sets a text Content-Type.
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    let duplexAccessed = false
+
+    try {
+      const hasContentType = new Request('http://localhost', {
+        method: 'POST',
+        body: new ReadableStream(),
+        get duplex() {
+          duplexAccessed = true
+          return 'half'
+        },
+      } as RequestInit).headers.has('content-type')
+
+      requestStreamsSupported = duplexAccessed && !hasContentType
+    }
+    catch {
+      requestStreamsSupported = false
+    }
+  }
+
+  return requestStreamsSupported
+}
+
+// Replaces the request body with a stream that reports upload progress.
+// Bodies other than Blobs are serialized first so that the total is known,
+// which also yields the multipart boundary for FormData.
+export async function trackUploadProgress(
+  init: RequestInit,
+  onProgress: (event: FetchesProgressEvent) => void,
+): Promise<RequestInit> {
+  if (init.body === undefined || init.body === null)
+    return init
+
+  const headers = new Headers(init.headers)
+  let blob: Blob
+
+  if (init.body instanceof Blob) {
+    blob = init.body
+  }
+  else {
+    const request = new Request('http://localhost', { method: 'POST', body: init.body })
+    const contentType = request.headers.get('content-type')
+
+    if (contentType && !headers.has('content-type')) {
+      headers.set('content-type', contentType)
+    }
+
+    blob = await request.blob()
+  }
+
+  return {
+    ...init,
+    headers,
+    body: streamBlob(blob).pipeThrough(createProgressStream(blob.size, onProgress)),
+    duplex: 'half',
+  } as RequestInit
+}
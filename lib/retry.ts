@@ -0,0 +1,77 @@
+import type { RetryConfig, RetryContext } from './types.js'
+import { FetchesNetworkError, FetchesResponseError, FetchesTimeoutError } from './errors.js'
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504]
+
+export const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE']
+
+// Retry-After is either a number of seconds or an HTTP-date (RFC 9110 section 10.2.3).
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value)
+    return undefined
+
+  if (/^\d+$/.test(value.trim()))
+    return Number.parseInt(value, 10) * 1000
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+export function isRetryable(error: Error, context: RetryContext, config: RetryConfig): boolean {
+  const methods = config.methods ?? IDEMPOTENT_METHODS
+  if (!methods.includes(context.method))
+    return false
+
+  if (error instanceof FetchesResponseError) {
+    const statusCodes = config.statusCodes ?? DEFAULT_RETRY_STATUS_CODES
+    return statusCodes.includes(error.response.status)
+  }
+
+  return error instanceof FetchesNetworkError || error instanceof FetchesTimeoutError
+}
+
+export function computeBackoff(config: RetryConfig, attempt: number, previousDelay: number): number {
+  const { backoff, initialDelay, maxDelay, jitter = 'none' } = config
+  const cap = maxDelay ?? Number.POSITIVE_INFINITY
+
+  if (jitter === 'decorrelated') {
+    const upper = Math.max(initialDelay, previousDelay * 3)
+    return Math.min(cap, initialDelay + Math.random() * (upper - initialDelay))
+  }
+
+  const delay = Math.min(
+    cap,
+    backoff === 'exponential'
+      ? initialDelay * 2 ** attempt
+      : initialDelay * (attempt + 1),
+  )
+
+  switch (jitter) {
+    case 'full':
+      return Math.random() * delay
+    case 'equal':
+      return delay / 2 + Math.random() * (delay / 2)
+    default:
+      return delay
+  }
+}
+
+// Returns undefined when the server asks to wait longer than maxDelay allows.
+export function getRetryDelay(
+  config: RetryConfig,
+  attempt: number,
+  previousDelay: number,
+  response?: Response,
+): number | undefined {
+  if (response && (config.respectRetryAfter ?? true)) {
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+
+    if (retryAfter !== undefined) {
+      return config.maxDelay !== undefined && retryAfter > config.maxDelay
+        ? undefined
+        : retryAfter
+    }
+  }
+
+  return computeBackoff(config, attempt, previousDelay)
+}
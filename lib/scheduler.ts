@@ -0,0 +1,206 @@
+import type { RateLimitRule, SchedulerConfig } from './types.js'
+import { parseRetryAfter } from './retry.js'
+
+interface ScheduledTask {
+  url: string
+  host: string
+  priority: number
+  sequence: number
+  start: () => void
+}
+
+class TokenBucket {
+  private readonly limit: number
+  private readonly interval: number
+  private tokens: number
+  private lastRefill: number
+
+  constructor(limit: number, interval: number) {
+    this.limit = limit
+    this.interval = interval
+    this.tokens = limit
+    this.lastRefill = Date.now()
+  }
+
+  take(): void {
+    this.refill()
+    this.tokens -= 1
+  }
+
+  waitTime(): number {
+    this.refill()
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.interval / this.limit)
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.limit, this.tokens + (now - this.lastRefill) * this.limit / this.interval)
+    this.lastRefill = now
+  }
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host
+  }
+  catch {
+    return ''
+  }
+}
+
+function matchesRule(rule: RateLimitRule, url: string): boolean {
+  if (rule.match === undefined)
+    return true
+  return typeof rule.match === 'string' ? url.startsWith(rule.match) : rule.match.test(url)
+}
+
+export class RequestScheduler {
+  private readonly maxConcurrency: number
+  private readonly rateLimits: RateLimitRule[]
+  private readonly adaptive: boolean
+  private readonly queue: ScheduledTask[] = []
+  private readonly buckets = new Map<string, TokenBucket>()
+  private readonly pausedHosts = new Map<string, number>()
+  private running = 0
+  private sequence = 0
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(config: SchedulerConfig = {}) {
+    this.maxConcurrency = config.maxConcurrency ?? Number.POSITIVE_INFINITY
+    this.rateLimits = config.rateLimits ?? []
+    this.adaptive = config.adaptive ?? true
+  }
+
+  schedule<T>(
+    url: string,
+    run: () => Promise<T>,
+    options: { priority?: number, signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const { priority = 0, signal } = options
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const queue = this.queue
+      const task: ScheduledTask = {
+        url,
+        host: getHost(url),
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          this.running++
+          run()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--
+              this.drain()
+            })
+        },
+      }
+
+      function onAbort(): void {
+        const index = queue.indexOf(task)
+        if (index > -1) {
+          queue.splice(index, 1)
+          reject(signal!.reason)
+        }
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(task)
+      this.queue.sort((a, b) => b.priority - a.priority || a.sequence - b.sequence)
+      this.drain()
+    })
+  }
+
+  // Backs off a host when the server reports an exhausted rate limit.
+  observe(url: string, status: number, headers: Headers): void {
+    if (!this.adaptive)
+      return
+
+    const now = Date.now()
+    let waitTime: number | undefined
+
+    if (status === 429 || status === 503) {
+      waitTime = parseRetryAfter(headers.get('retry-after'), now)
+    }
+
+    if (waitTime === undefined && headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number.parseFloat(headers.get('x-ratelimit-reset') ?? '')
+      if (!Number.isNaN(reset)) {
+        // Some APIs send an epoch timestamp in seconds, others a delta.
+        waitTime = reset > 1e9 ? reset * 1000 - now : reset * 1000
+      }
+    }
+
+    if (waitTime !== undefined && waitTime > 0) {
+      const host = getHost(url)
+      this.pausedHosts.set(host, Math.max(this.pausedHosts.get(host) ?? 0, now + waitTime))
+      this.drain()
+    }
+  }
+
+  get pending(): number {
+    return this.queue.length
+  }
+
+  get active(): number {
+    return this.running
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    let nextCheck = Number.POSITIVE_INFINITY
+
+    for (let i = 0; i < this.queue.length && this.running < this.maxConcurrency;) {
+      const task = this.queue[i]
+      const waitTime = this.getWaitTime(task)
+
+      if (waitTime > 0) {
+        nextCheck = Math.min(nextCheck, waitTime)
+        i++
+        continue
+      }
+
+      this.getBuckets(task).forEach(bucket => bucket.take())
+      this.queue.splice(i, 1)
+      task.start()
+    }
+
+    if (this.queue.length > 0 && Number.isFinite(nextCheck)) {
+      this.timer = setTimeout(() => this.drain(), nextCheck)
+    }
+  }
+
+  private getWaitTime(task: ScheduledTask): number {
+    const pausedUntil = this.pausedHosts.get(task.host) ?? 0
+    const pauseTime = pausedUntil - Date.now()
+
+    if (pauseTime <= 0) {
+      this.pausedHosts.delete(task.host)
+    }
+
+    return Math.max(pauseTime, ...this.getBuckets(task).map(bucket => bucket.waitTime()))
+  }
+
+  private getBuckets(task: ScheduledTask): TokenBucket[] {
+    return this.rateLimits.flatMap((rule, index) => {
+      if (!matchesRule(rule, task.url))
+        return []
+
+      const key = rule.scope === 'host' ? `${index}:${task.host}` : `${index}`
+      let bucket = this.buckets.get(key)
+      if (!bucket) {
+        bucket = new TokenBucket(rule.limit, rule.interval)
+        this.buckets.set(key, bucket)
+      }
+      return [bucket]
+    })
+  }
+}
@@ -0,0 +1,241 @@
+import type { FetchesResponse, MaybePromise, ServerSentEvent, SSEConfig } from './types.js'
+import { FetchesNetworkError, FetchesResponseError, FetchesValidationError } from './errors.js'
+import { readLines } from './streams.js'
+
+interface ParsedEvent {
+  event: string
+  data?: string
+  id?: string
+  retry?: number
+}
+
+export type SSEReadyState = 'connecting' | 'open' | 'closed'
+
+// Parses the text/event-stream wire format. Blocks without data still carry
+// id and retry updates, so they are yielded with data left undefined.
+export async function* parseServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ParsedEvent> {
+  let event = ''
+  let data: string[] = []
+  let id: string | undefined
+  let retry: number | undefined
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      yield { event: event || 'message', data: data.length > 0 ? data.join('\n') : undefined, id, retry }
+      event = ''
+      data = []
+      id = undefined
+      retry = undefined
+      continue
+    }
+
+    if (line.startsWith(':'))
+      continue
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'event':
+        event = value
+        break
+      case 'data':
+        data.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0')) {
+          id = value
+        }
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = Number.parseInt(value, 10)
+        }
+        break
+    }
+  }
+}
+
+interface EventSourceOptions<T> {
+  connect: (lastEventId: string | undefined, signal: AbortSignal) => Promise<FetchesResponse<ReadableStream<Uint8Array> | null>>
+  decode: (data: string) => MaybePromise<T>
+  config: SSEConfig<T>
+}
+
+export class FetchesEventSource<T = string> implements AsyncIterable<ServerSentEvent<T>> {
+  public readyState: SSEReadyState = 'connecting'
+  public lastEventId?: string
+
+  private readonly options: EventSourceOptions<T>
+  private readonly controller = new AbortController()
+  private readonly buffer: ServerSentEvent<T>[] = []
+  private readonly waiters: Array<{
+    resolve: (result: IteratorResult<ServerSentEvent<T>>) => void
+    reject: (error: Error) => void
+  }> = []
+
+  private retryInterval: number
+  private iterating = false
+  private error?: Error
+
+  constructor(options: EventSourceOptions<T>) {
+    this.options = options
+    this.retryInterval = options.config.retryInterval ?? 3000
+    this.lastEventId = options.config.lastEventId
+    // Backstop for anything that escapes the loop, so it closes the source
+    // instead of surfacing as an unhandled rejection.
+    this.run().catch(error => this.finish(error as Error))
+  }
+
+  close(): void {
+    this.finish()
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ServerSentEvent<T>> {
+    this.iterating = true
+
+    return {
+      next: () => {
+        const event = this.buffer.shift()
+        if (event)
+          return Promise.resolve({ value: event, done: false })
+        if (this.error)
+          return Promise.reject(this.error)
+        if (this.readyState === 'closed')
+          return Promise.resolve({ value: undefined, done: true })
+
+        return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }))
+      },
+      return: () => {
+        this.close()
+        return Promise.resolve({ value: undefined, done: true })
+      },
+    }
+  }
+
+  private async run(): Promise<void> {
+    const { config } = this.options
+    const maxRetries = config.maxRetries ?? Number.POSITIVE_INFINITY
+    let failures = 0
+
+    while (!this.isClosed()) {
+      this.readyState = 'connecting'
+
+      try {
+        const response = await this.options.connect(this.lastEventId, this.controller.signal)
+        const contentType = response.headers.get('content-type')
+
+        if (response.status === 204) {
+          this.finish()
+          return
+        }
+        if (!response.data || !contentType?.includes('text/event-stream')) {
+          this.finish(new FetchesNetworkError(`Expected text/event-stream but received ${contentType ?? 'no content type'}`))
+          return
+        }
+
+        this.readyState = 'open'
+        failures = 0
+        this.notify(() => config.onOpen?.(response as FetchesResponse<ReadableStream<Uint8Array>>))
+
+        for await (const parsed of parseServerSentEvents(response.data)) {
+          if (parsed.id !== undefined) {
+            this.lastEventId = parsed.id
+          }
+          if (parsed.retry !== undefined) {
+            this.retryInterval = parsed.retry
+          }
+          if (parsed.data !== undefined) {
+            this.dispatch({
+              event: parsed.event,
+              data: await this.options.decode(parsed.data),
+              id: this.lastEventId,
+              retry: parsed.retry,
+            })
+          }
+        }
+      }
+      catch (error) {
+        if (this.isClosed())
+          return
+
+        // HTTP errors and undecodable events are not fixed by reconnecting.
+        if (error instanceof FetchesResponseError
+          || error instanceof FetchesValidationError
+          || ++failures > maxRetries) {
+          this.finish(error as Error)
+          return
+        }
+
+        this.notify(() => config.onError?.(error as Error))
+      }
+
+      if (config.reconnect === false) {
+        this.finish()
+        return
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.retryInterval)
+        this.controller.signal.addEventListener('abort', () => {
+          clearTimeout(timer)
+          resolve()
+        }, { once: true })
+      })
+    }
+  }
+
+  private isClosed(): boolean {
+    return this.readyState === 'closed'
+  }
+
+  // A throwing callback closes the source with its error, rather than being
+  // taken for a dropped connection and reconnected.
+  private notify(callback: () => void): void {
+    try {
+      callback()
+    }
+    catch (error) {
+      this.finish(error as Error)
+    }
+  }
+
+  private dispatch(event: ServerSentEvent<T>): void {
+    this.notify(() => this.options.config.onMessage?.(event))
+    if (this.isClosed())
+      return
+
+    const waiter = this.waiters.shift()
+    if (waiter) {
+      waiter.resolve({ value: event, done: false })
+    }
+    else if (this.iterating) {
+      this.buffer.push(event)
+    }
+  }
+
+  private finish(error?: Error): void {
+    if (this.readyState === 'closed')
+      return
+
+    this.readyState = 'closed'
+    this.controller.abort()
+
+    if (error) {
+      this.error = error
+      // The source is closed already, so there is nowhere left to report to.
+      try {
+        this.options.config.onError?.(error)
+      }
+      catch {}
+    }
+
+    this.waiters.splice(0).forEach(waiter => error
+      ? waiter.reject(error)
+      : waiter.resolve({ value: undefined, done: true }))
+  }
+}
@@ -0,0 +1,78 @@
+import type { CacheEntry, CacheStorageAdapter } from '../types.js'
+
+interface FileRecord<T> {
+  key: string
+  value: T
+}
+
+export class FileSystemCacheStorage<T = CacheEntry> implements CacheStorageAdapter<T> {
+  private readonly directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const record = await this.read(await this.filePath(key))
+    return record?.key === key ? record.value : undefined
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const { mkdir, writeFile } = await import('node:fs/promises')
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(await this.filePath(key), JSON.stringify({ key, value } satisfies FileRecord<T>))
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises')
+    await rm(await this.filePath(key), { force: true })
+  }
+
+  async keys(): Promise<string[]> {
+    const { join } = await import('node:path')
+    const keys: string[] = []
+
+    for (const file of await this.files()) {
+      const record = await this.read(join(this.directory, file))
+      if (record) {
+        keys.push(record.key)
+      }
+    }
+
+    return keys
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import('node:fs/promises')
+    const { join } = await import('node:path')
+    await Promise.all((await this.files()).map(file => rm(join(this.directory, file), { force: true })))
+  }
+
+  private async files(): Promise<string[]> {
+    const { readdir } = await import('node:fs/promises')
+
+    try {
+      return (await readdir(this.directory)).filter(file => file.endsWith('.json'))
+    }
+    catch {
+      return []
+    }
+  }
+
+  private async filePath(key: string): Promise<string> {
+    const { createHash } = await import('node:crypto')
+    const { join } = await import('node:path')
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`)
+  }
+
+  private async read(path: string): Promise<FileRecord<T> | undefined> {
+    const { readFile } = await import('node:fs/promises')
+
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as FileRecord<T>
+    }
+    catch {
+      return undefined
+    }
+  }
+}
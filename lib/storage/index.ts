@@ -0,0 +1,4 @@
+export * from './filesystem.js'
+export * from './indexeddb.js'
+export * from './memory.js'
+export * from './web-storage.js'
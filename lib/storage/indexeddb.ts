@@ -0,0 +1,94 @@
+import type { CacheEntry, CacheStorageAdapter } from '../types.js'
+
+// Opens the database, creating the store when the open triggers an upgrade.
+// Without a version, an existing database opens as it is.
+function openDatabase(name: string, storeName: string, version?: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export class IndexedDBCacheStorage<T = CacheEntry> implements CacheStorageAdapter<T> {
+  private readonly databaseName: string
+  private readonly storeName: string
+  private database?: Promise<IDBDatabase>
+
+  constructor(databaseName: string = 'fetches', storeName: string = 'cache') {
+    this.databaseName = databaseName
+    this.storeName = storeName
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return this.run<T | undefined>('readonly', store => store.get(key))
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key))
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key))
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run<IDBValidKey[]>('readonly', store => store.getAllKeys())
+    return keys.map(String)
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear())
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= this.connect().catch((error) => {
+      this.database = undefined
+      throw error
+    })
+
+    return this.database
+  }
+
+  // Stores sharing a database are added in a version upgrade when missing.
+  // Open connections close on upgrade, and the next operation reopens them.
+  private async connect(): Promise<IDBDatabase> {
+    let database = await openDatabase(this.databaseName, this.storeName)
+
+    while (!database.objectStoreNames.contains(this.storeName)) {
+      database.close()
+
+      try {
+        database = await openDatabase(this.databaseName, this.storeName, database.version + 1)
+      }
+      catch (error) {
+        // Another instance upgraded first, so look at its version instead.
+        if ((error as DOMException | null)?.name !== 'VersionError')
+          throw error
+        database = await openDatabase(this.databaseName, this.storeName)
+      }
+    }
+
+    database.onversionchange = () => {
+      database.close()
+      this.database = undefined
+    }
+
+    return database
+  }
+
+  private async run<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const database = await this.open()
+
+    return new Promise((resolve, reject) => {
+      const request = operation(database.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result as R)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
@@ -0,0 +1,25 @@
+import type { CacheEntry, CacheStorageAdapter } from '../types.js'
+
+export class MemoryCacheStorage<T = CacheEntry> implements CacheStorageAdapter<T> {
+  private readonly store = new Map<string, T>()
+
+  get(key: string): T | undefined {
+    return this.store.get(key)
+  }
+
+  set(key: string, value: T): void {
+    this.store.set(key, value)
+  }
+
+  delete(key: string): void {
+    this.store.delete(key)
+  }
+
+  keys(): string[] {
+    return [...this.store.keys()]
+  }
+
+  clear(): void {
+    this.store.clear()
+  }
+}
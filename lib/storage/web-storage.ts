@@ -0,0 +1,50 @@
+import type { CacheEntry, CacheStorageAdapter } from '../types.js'
+
+export class WebStorageCacheStorage<T = CacheEntry> implements CacheStorageAdapter<T> {
+  private readonly storage: Storage
+  private readonly prefix: string
+
+  constructor(storage: Storage = globalThis.localStorage, prefix: string = 'fetches:') {
+    this.storage = storage
+    this.prefix = prefix
+  }
+
+  get(key: string): T | undefined {
+    const raw = this.storage.getItem(this.prefix + key)
+    if (raw === null)
+      return undefined
+
+    try {
+      return JSON.parse(raw) as T
+    }
+    catch {
+      this.delete(key)
+      return undefined
+    }
+  }
+
+  set(key: string, value: T): void {
+    this.storage.setItem(this.prefix + key, JSON.stringify(value))
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key)
+  }
+
+  keys(): string[] {
+    const keys: string[] = []
+
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i)
+      if (key?.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length))
+      }
+    }
+
+    return keys
+  }
+
+  clear(): void {
+    this.keys().forEach(key => this.delete(key))
+  }
+}
@@ -0,0 +1,41 @@
+const LINE_BREAK = /\r\n|\r|\n/
+
+// Yields the lines of a byte stream, accepting \n, \r\n and \r as line breaks.
+// Cancels the stream when the consumer stops early.
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done)
+        break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let match = LINE_BREAK.exec(buffer)
+      while (match) {
+        // A trailing \r may be the first half of a \r\n split across chunks.
+        if (match[0] === '\r' && match.index === buffer.length - 1)
+          break
+
+        yield buffer.slice(0, match.index)
+        buffer = buffer.slice(match.index + match[0].length)
+        match = LINE_BREAK.exec(buffer)
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.endsWith('\r')) {
+      yield buffer.slice(0, -1)
+    }
+    else if (buffer) {
+      yield buffer
+    }
+  }
+  finally {
+    await reader.cancel().catch(() => {})
+  }
+}
@@ -0,0 +1,55 @@
+import type { TimeoutBudget } from './types.js'
+import { FetchesTimeoutError } from './errors.js'
+
+function describe(budget: TimeoutBudget, ms: number): string {
+  switch (budget) {
+    case 'total':
+      return `Request exceeded its total deadline of ${ms}ms across all attempts`
+    case 'headers':
+      return `No response headers received within ${ms}ms`
+    case 'body':
+      return `Response body not received within ${ms}ms`
+    default:
+      return `Request attempt timed out after ${ms}ms`
+  }
+}
+
+// An abort signal driven by a timer that can be re-armed or cleared, so the
+// same signal can cover successive phases of a request. Aborts with a
+// FetchesTimeoutError naming the budget that ran out.
+export class Deadline {
+  private readonly controller = new AbortController()
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(ms?: number, budget: TimeoutBudget = 'attempt') {
+    this.arm(ms, budget)
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  arm(ms: number | undefined, budget: TimeoutBudget): void {
+    this.clear()
+
+    if (ms === undefined || ms <= 0 || !Number.isFinite(ms))
+      return
+
+    this.timer = setTimeout(() => {
+      this.controller.abort(new FetchesTimeoutError(describe(budget, ms), budget, ms))
+    }, ms)
+  }
+
+  clear(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+}
+
+export function combineSignals(...signals: Array<AbortSignal | null | undefined>): AbortSignal {
+  return AbortSignal.any(signals.filter((signal): signal is AbortSignal => !!signal))
+}
+
+export function getTimeoutError(signal: AbortSignal): FetchesTimeoutError | undefined {
+  return signal.aborted && signal.reason instanceof FetchesTimeoutError ? signal.reason : undefined
+}
@@ -0,0 +1,281 @@
+import type {
+  FetchesResponse,
+  RequestConfig,
+  RetryConfig,
+  RetryContext,
+  TusUploadConfig,
+  TusUploadStatus,
+} from './types.js'
+import { FetchesResponseError, FetchesUploadError } from './errors.js'
+import { createProgressEvent } from './progress.js'
+import { getRetryDelay, isRetryable } from './retry.js'
+
+const TUS_VERSION = '1.0.0'
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+
+// Creation is not retried by default, since a lost response would leave an
+// orphaned upload behind. Chunks are safe because the offset is re-read first.
+const RETRYABLE_METHODS = ['HEAD', 'PATCH', 'DELETE']
+
+// Statuses meaning a stored upload URL is gone and a new upload is needed.
+const EXPIRED_STATUSES = [403, 404, 410]
+
+type TusRequest = (config: RequestConfig) => Promise<FetchesResponse<unknown>>
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value)
+      return `${key} ${btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))}`
+    })
+    .join(',')
+}
+
+function defaultFingerprint(file: Blob, endpoint: string): string {
+  const name = file instanceof File ? file.name : ''
+  const lastModified = file instanceof File ? file.lastModified : ''
+
+  return ['tus', endpoint, name, file.type, file.size, lastModified].join(':')
+}
+
+function abortable(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }, { once: true })
+  })
+}
+
+// Resumable upload following the tus 1.0 core protocol with the creation and
+// termination extensions.
+export class TusUpload {
+  public url?: string
+  public offset = 0
+  public status: TusUploadStatus = 'idle'
+
+  private readonly file: Blob
+  private readonly config: TusUploadConfig
+  private readonly send: TusRequest
+  private readonly fingerprint: string
+  private controller?: AbortController
+  private running?: Promise<void>
+  private runToken?: object
+
+  constructor(file: Blob, config: TusUploadConfig, send: TusRequest) {
+    this.file = file
+    this.config = config
+    this.send = send
+    this.url = config.uploadUrl
+    this.fingerprint = (config.fingerprint ?? defaultFingerprint)(file, config.endpoint)
+  }
+
+  // Resolves once the upload completes or is paused. Called right after
+  // pause(), the new run starts once the paused one has settled.
+  start(): Promise<void> {
+    if (this.status === 'completed' || this.status === 'terminated')
+      return Promise.resolve()
+    if (this.running && this.status === 'uploading')
+      return this.running
+
+    const previous = this.running ?? Promise.resolve()
+    const token = {}
+    this.runToken = token
+    this.status = 'uploading'
+
+    this.running = previous
+      .catch(() => {})
+      .then(() => this.status === 'uploading' ? this.run() : undefined)
+      .finally(() => {
+        if (this.runToken === token) {
+          this.running = undefined
+        }
+      })
+
+    return this.running
+  }
+
+  pause(): void {
+    if (this.status !== 'uploading')
+      return
+
+    this.status = 'paused'
+    this.controller?.abort()
+  }
+
+  // Stops the upload and asks the server to discard it.
+  async abort(): Promise<void> {
+    this.pause()
+    await this.running?.catch(() => {})
+
+    if (this.url && this.status !== 'completed') {
+      const url = this.url
+      await this.withRetry('DELETE', undefined, () =>
+        this.send(this.createConfig('DELETE', url)))
+    }
+
+    await this.config.storage?.delete(this.fingerprint)
+    this.url = undefined
+    this.offset = 0
+    this.status = 'terminated'
+  }
+
+  private async run(): Promise<void> {
+    const controller = new AbortController()
+    this.controller = controller
+    this.status = 'uploading'
+
+    try {
+      await this.resumeOrCreate(controller.signal)
+
+      while (this.offset < this.file.size) {
+        await this.uploadChunk(controller.signal)
+      }
+
+      this.status = 'completed'
+      await this.config.storage?.delete(this.fingerprint)
+      this.config.onSuccess?.(this.url!)
+    }
+    catch (error) {
+      // Only pause() aborts the controller, and the status may already
+      // belong to the run that resumed the upload.
+      if (controller.signal.aborted)
+        return
+
+      this.status = 'failed'
+      throw error
+    }
+  }
+
+  private async resumeOrCreate(signal: AbortSignal): Promise<void> {
+    this.url ??= await this.config.storage?.get(this.fingerprint)
+
+    if (this.url) {
+      try {
+        this.offset = await this.withRetry('HEAD', signal, () => this.fetchOffset(signal))
+        return
+      }
+      catch (error) {
+        if (!(error instanceof FetchesResponseError) || !EXPIRED_STATUSES.includes(error.response.status))
+          throw error
+
+        await this.config.storage?.delete(this.fingerprint)
+        this.url = undefined
+      }
+    }
+
+    const headers: Record<string, string> = { 'Upload-Length': String(this.file.size) }
+    if (this.config.metadata) {
+      headers['Upload-Metadata'] = encodeMetadata(this.config.metadata)
+    }
+
+    const response = await this.withRetry('POST', signal, () =>
+      this.send(this.createConfig('POST', this.config.endpoint, signal, headers)))
+    const location = response.headers.get('location')
+
+    if (!location)
+      throw new FetchesUploadError('tus server did not return a Location header')
+
+    this.url = new URL(location, new URL(this.config.endpoint, globalThis.location?.href)).href
+    this.offset = 0
+    await this.config.storage?.set(this.fingerprint, this.url)
+  }
+
+  private async fetchOffset(signal: AbortSignal): Promise<number> {
+    const response = await this.send(this.createConfig('HEAD', this.url!, signal))
+    return this.readOffset(response)
+  }
+
+  private async uploadChunk(signal: AbortSignal): Promise<void> {
+    let resync = false
+
+    await this.withRetry('PATCH', signal, async () => {
+      // After a failed chunk the server may have stored part of it.
+      if (resync) {
+        this.offset = await this.fetchOffset(signal)
+        if (this.offset >= this.file.size)
+          return
+      }
+      resync = true
+
+      const start = this.offset
+      const chunk = this.file.slice(start, start + (this.config.chunkSize ?? DEFAULT_CHUNK_SIZE))
+      const response = await this.send({
+        ...this.createConfig('PATCH', this.url!, signal, {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(start),
+        }),
+        data: chunk,
+        onUploadProgress: this.config.onProgress
+          ? event => this.config.onProgress!(createProgressEvent(start + event.loaded, this.file.size))
+          : undefined,
+      })
+
+      this.offset = this.readOffset(response)
+    })
+
+    this.config.onProgress?.(createProgressEvent(this.offset, this.file.size))
+  }
+
+  private readOffset(response: FetchesResponse<unknown>): number {
+    const offset = Number.parseInt(response.headers.get('upload-offset') ?? '', 10)
+
+    if (Number.isNaN(offset))
+      throw new FetchesUploadError('tus server did not return a valid Upload-Offset header')
+
+    return offset
+  }
+
+  private createConfig(
+    method: string,
+    url: string,
+    signal?: AbortSignal,
+    headers: Record<string, string> = {},
+  ): RequestConfig {
+    return {
+      method,
+      url,
+      signal,
+      headers: { ...this.config.headers, 'Tus-Resumable': TUS_VERSION, ...headers },
+      responseType: 'text',
+      retry: false,
+      skipCache: true,
+    }
+  }
+
+  private async withRetry<T>(method: string, signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> {
+    const retry: RetryConfig | undefined = this.config.retry
+      ? { ...this.config.retry, methods: this.config.retry.methods ?? RETRYABLE_METHODS }
+      : undefined
+    let previousDelay = 0
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation()
+      }
+      catch (error) {
+        const context: RetryContext = {
+          attempt: attempt + 1,
+          method,
+          response: error instanceof FetchesResponseError ? error.response : undefined,
+        }
+
+        if (!retry
+          || signal?.aborted
+          || context.attempt >= retry.attempts
+          || !(retry.shouldRetry ? retry.shouldRetry(error as Error, context) : isRetryable(error as Error, context, retry))) {
+          throw error
+        }
+
+        const delay = getRetryDelay(retry, attempt, previousDelay, context.response)
+        if (delay === undefined)
+          throw error
+
+        retry.onRetry?.(error as Error, { ...context, delay })
+        await abortable(delay, signal)
+        previousDelay = delay
+      }
+    }
+  }
+}
@@ -1,9 +1,63 @@
-export type ValidatorType = 'zod' | 'yup' | 'io-ts' | 'runtypes' | 'joi'
+export type BuiltinValidatorType = 'zod' | 'yup' | 'io-ts' | 'runtypes' | 'joi' | 'standard'
 
-export interface CacheEntry<T> {
+// Any other name refers to an adapter added with registerValidator().
+export type ValidatorType = BuiltinValidatorType | (string & {})
+
+export type MaybePromise<T> = T | Promise<T>
+
+export interface SerializedResponse<T = any> {
+  data: T
+  status: number
+  statusText: string
+  headers: [string, string][]
+}
+
+export interface CacheEntry<T = SerializedResponse> {
   data: T
   timestamp: number
   ttl: number
+  vary?: Record<string, string | null>
+  revalidatable?: boolean
+  tags?: string[]
+}
+
+export type CachePolicy = 'ttl' | 'http'
+
+export type CacheStrategy
+  = | 'cache-first'
+    | 'network-first'
+    | 'stale-while-revalidate'
+    | 'stale-if-error'
+    | 'cache-only'
+    | 'network-only'
+
+export interface CacheStorageAdapter<T = CacheEntry> {
+  get: (key: string) => MaybePromise<T | undefined>
+  set: (key: string, value: T) => MaybePromise<void>
+  delete: (key: string) => MaybePromise<void>
+  keys: () => MaybePromise<string[]>
+  clear: () => MaybePromise<void>
+}
+
+export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream' | 'ndjson'
+
+export type NDJSONErrorMode = 'fail-fast' | 'skip'
+
+export interface FetchesProgressEvent {
+  loaded: number
+  total?: number
+  progress?: number
+  lengthComputable: boolean
+}
+
+export type TimeoutBudget = 'attempt' | 'total' | 'headers' | 'body'
+
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated'
+
+export interface RetryContext {
+  attempt: number
+  method: string
+  response?: Response
 }
 
 export interface RetryConfig {
@@ -11,21 +65,232 @@ export interface RetryConfig {
   backoff: 'linear' | 'exponential'
   initialDelay: number
   maxDelay?: number
-  shouldRetry?: (error: Error) => boolean
+  jitter?: RetryJitter
+  statusCodes?: number[]
+  methods?: string[]
+  respectRetryAfter?: boolean
+  shouldRetry?: (error: Error, context: RetryContext) => boolean
+  onRetry?: (error: Error, context: RetryContext & { delay: number }) => void
+}
+
+export interface RateLimitRule {
+  limit: number
+  interval: number
+  scope?: 'global' | 'host'
+  match?: string | RegExp
+}
+
+export interface SchedulerConfig {
+  maxConcurrency?: number
+  rateLimits?: RateLimitRule[]
+  adaptive?: boolean
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerConfig {
+  key?: (url: string, config: RequestConfig) => string
+  failureThreshold?: number
+  failureRateThreshold?: number
+  minimumRequests?: number
+  windowSize?: number
+  cooldown?: number
+  halfOpenMaxRequests?: number
+  isFailure?: (error: Error) => boolean
+}
+
+export interface CircuitStateChangeEvent {
+  key: string
+  from: CircuitState
+  to: CircuitState
+}
+
+export type AuthCredentials
+  = | { type: 'bearer', token: string }
+    | { type: 'basic', username: string, password: string }
+    | { type: 'apiKey', name: string, value: string, in?: 'header' | 'query' }
+
+export interface AuthConfig {
+  credentials?: AuthCredentials | (() => MaybePromise<AuthCredentials | undefined>)
+  refresh?: (error: Error) => Promise<AuthCredentials>
+  shouldRefresh?: (error: Error) => boolean
+  onRefreshFailure?: (error: unknown) => void
+}
+
+export interface FetchesAdapterContext {
+  // Lower-cased names of the headers that carry credentials.
+  sensitiveHeaders: string[]
+  // Names of the query parameters that carry credentials.
+  sensitiveQuery: string[]
+}
+
+// Sends a request and resolves with the response, like `fetch`.
+export type FetchesAdapter = (url: string, init: RequestInit, context?: FetchesAdapterContext) => Promise<Response>
+
+export interface MockRequest {
+  method: string
+  url: string
+  params: Record<string, string | string[]>
+  headers: Headers
+  // Parsed as JSON when possible, otherwise the text, or the FormData as sent.
+  body: unknown
+}
+
+export interface MockReply {
+  status?: number
+  statusText?: string
+  headers?: HeadersInit
+  body?: unknown
+}
+
+export interface MockRouteOptions {
+  params?: Record<string, unknown>
+  headers?: Record<string, string>
+  body?: unknown | ((body: unknown) => boolean)
+}
+
+export interface MockAdapterConfig {
+  // Resolves relative route URLs, for clients whose baseURL has a path.
+  baseURL?: string
+}
+
+export type HarMode = 'record' | 'replay' | 'record-new'
+
+export interface HarAdapterConfig {
+  path: string
+  mode?: HarMode
+  // Sends the requests that are recorded, `fetch` by default.
+  adapter?: FetchesAdapter
+  // Requests always match on method and URL; the body unless disabled.
+  match?: {
+    body?: boolean
+    headers?: string[]
+  }
+  redactHeaders?: string[]
+  // Query parameters to store as `[REDACTED]`, in addition to API keys set by `auth`.
+  redactQuery?: string[]
+}
+
+export interface HarNameValue {
+  name: string
+  value: string
+}
+
+export interface HarEntry {
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarNameValue[]
+    queryString: HarNameValue[]
+    cookies: HarNameValue[]
+    headersSize: number
+    bodySize: number
+    postData?: { mimeType: string, text: string, _encoding?: 'base64' }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarNameValue[]
+    cookies: HarNameValue[]
+    content: { size: number, mimeType: string, text?: string, encoding?: 'base64' }
+    redirectURL: string
+    headersSize: number
+    bodySize: number
+  }
+  cache: Record<string, never>
+  timings: { send: number, wait: number, receive: number }
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2'
+    creator: { name: string, version: string }
+    entries: HarEntry[]
+  }
 }
 
 export type RequestTransformer = (config: RequestConfig) => Promise<RequestConfig> | RequestConfig
 
 export type ResponseTransformer<T> = (response: Response, data: T) => Promise<T> | T
 
-export interface RequestInterceptor {
-  onFulfilled?: (config: RequestConfig) => Promise<RequestConfig> | RequestConfig
-  onRejected?: (error: Error) => Promise<Error> | Error
+export interface InterceptorOptions {
+  // Higher priorities run first; equal ones in the order they were added.
+  priority?: number
+  runWhen?: (config: RequestConfig) => boolean
+  urlPrefix?: string
+}
+
+// Returning something other than an Error from `onRejected` recovers from
+// the error with that value.
+export interface Interceptor<T> extends InterceptorOptions {
+  onFulfilled?: (value: T) => Promise<T> | T
+  onRejected?: (error: Error) => Promise<Error | T> | Error | T
+}
+
+export type RequestInterceptor = Interceptor<RequestConfig>
+
+export type ResponseInterceptor<T = any> = Interceptor<T>
+
+export interface InterceptorRegistry<T> {
+  use: (
+    onFulfilled?: Interceptor<T>['onFulfilled'],
+    onRejected?: Interceptor<T>['onRejected'],
+    options?: InterceptorOptions,
+  ) => number
+  eject: (id: number) => void
+  clear: () => void
+}
+
+export interface MiddlewareContext {
+  config: RequestConfig
+  // Shared between the middleware of a single request.
+  state: Record<string, unknown>
+}
+
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<FetchesResponse<any>>,
+) => Promise<FetchesResponse<any>>
+
+export interface ValidationIssue {
+  path: Array<string | number>
+  message: string
+  code?: string
+  expected?: string
+  received?: string
+}
+
+export type RequestValidationTarget = 'data' | 'params'
+
+export interface ValidationErrorDetails {
+  issues?: ValidationIssue[]
+  data?: unknown
+  line?: number
 }
 
-export interface ResponseInterceptor<T = any> {
-  onFulfilled?: (response: T) => Promise<T> | T
-  onRejected?: (error: Error) => Promise<Error> | Error
+export type FetchesErrorCode
+  = | 'ERR_TIMEOUT'
+    | 'ERR_NETWORK'
+    | 'ERR_VALIDATION'
+    | 'ERR_REQUEST_VALIDATION'
+    | 'ERR_HTTP'
+    | 'ERR_CACHE_MISS'
+    | 'ERR_CIRCUIT_OPEN'
+    | 'ERR_UPLOAD'
+    | 'ERR_REPLAY_MISS'
+    | 'ERR_STREAM_CONSUMED'
+    | 'ERR_UNKNOWN'
+
+export interface FetchesErrorContext {
+  config?: RequestConfig
+  url?: string
+  method?: string
+  attempt?: number
+  cause?: unknown
 }
 
 export interface RequestConfig extends Omit<RequestInit, 'body'> {
@@ -35,36 +300,86 @@ export interface RequestConfig extends Omit<RequestInit, 'body'> {
   data?: any
   params?: Record<string, any>
   timeout?: number
+  totalTimeout?: number
+  headersTimeout?: number
+  bodyTimeout?: number
   validateResponse?: boolean
   validatorSchema?: unknown
   validatorType?: ValidatorType
+  requestSchema?: unknown
+  paramsSchema?: unknown
+  coerceRequest?: boolean
   requestId?: string
   skipCache?: boolean
+  skipAuth?: boolean
+  dedupe?: boolean
   cacheTime?: number
-  onUploadProgress?: (progressEvent: ProgressEvent) => void
-  onDownloadProgress?: (progressEvent: ProgressEvent) => void
+  cachePolicy?: CachePolicy
+  cacheStrategy?: CacheStrategy
+  tags?: string[]
+  invalidates?: string[]
+  queuePriority?: number
+  retry?: RetryConfig | false
+  responseType?: ResponseType
+  ndjsonErrorMode?: NDJSONErrorMode
+  onUploadProgress?: (progressEvent: FetchesProgressEvent) => void
+  onDownloadProgress?: (progressEvent: FetchesProgressEvent) => void
 }
 
 export interface FetchesConfig {
   baseURL?: string
   defaultHeaders?: HeadersInit
   timeout?: number
+  totalTimeout?: number
+  headersTimeout?: number
+  bodyTimeout?: number
   validateResponse?: boolean
   validatorType?: ValidatorType
   cache?: {
     enabled: boolean
     ttl: number
     maxSize?: number
+    storage?: CacheStorageAdapter
+    policy?: CachePolicy
+    shared?: boolean
+    strategy?: CacheStrategy
+    maxStale?: number
   }
+  dedupe?: boolean
   retry?: RetryConfig
+  scheduler?: SchedulerConfig
+  circuitBreaker?: CircuitBreakerConfig
+  auth?: AuthConfig
+  adapter?: FetchesAdapter
   transformRequest?: RequestTransformer[]
   transformResponse?: ResponseTransformer<unknown>[]
   interceptors?: {
     request?: RequestInterceptor[]
     response?: ResponseInterceptor[]
   }
+  middleware?: Middleware[]
+}
+
+export interface UploadConfig extends RequestConfig {
+  fields?: Record<string, any>
+}
+
+export type SchemaRequestConfig<S> = RequestConfig & { validatorSchema: S }
+
+export interface TypedClient<T> {
+  interceptors: {
+    request: InterceptorRegistry<RequestConfig>
+    response: InterceptorRegistry<FetchesResponse<T>>
+  }
+  get: (url: string, config?: RequestConfig) => Promise<FetchesResponse<T>>
+  post: (url: string, data?: any, config?: RequestConfig) => Promise<FetchesResponse<T>>
+  put: (url: string, data?: any, config?: RequestConfig) => Promise<FetchesResponse<T>>
+  patch: (url: string, data?: any, config?: RequestConfig) => Promise<FetchesResponse<T>>
+  delete: (url: string, config?: RequestConfig) => Promise<FetchesResponse<T>>
 }
 
+export type RequestSchemaConfig = Pick<RequestConfig, 'requestSchema' | 'paramsSchema' | 'coerceRequest'>
+
 export interface UploadOptions {
   onProgress?: (progress: number) => void
   headers?: HeadersInit
@@ -73,10 +388,85 @@ export interface UploadOptions {
   xhr?: XMLHttpRequest
 }
 
+export type TusUploadStatus = 'idle' | 'uploading' | 'paused' | 'completed' | 'failed' | 'terminated'
+
+export interface TusUploadConfig {
+  endpoint: string
+  uploadUrl?: string
+  chunkSize?: number
+  metadata?: Record<string, string>
+  headers?: Record<string, string>
+  retry?: RetryConfig | false
+  storage?: CacheStorageAdapter<string>
+  fingerprint?: (file: Blob, endpoint: string) => string
+  onProgress?: (progressEvent: FetchesProgressEvent) => void
+  onSuccess?: (uploadUrl: string) => void
+}
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'failed'
+
+export interface UploadItem<T = any> {
+  id: string
+  file: Blob
+  name: string
+  status: UploadStatus
+  progress: FetchesProgressEvent
+  response?: FetchesResponse<T>
+  uploadUrl?: string
+  error?: Error
+}
+
+export interface UploadManagerConfig extends UploadConfig {
+  url: string
+  concurrency?: number
+  resumable?: Omit<TusUploadConfig, 'endpoint' | 'onProgress' | 'onSuccess'>
+}
+
+export interface UploadManagerEvents {
+  add: UploadItem
+  statusChange: UploadItem
+  progress: { item: UploadItem, overall: FetchesProgressEvent }
+  remove: UploadItem
+  idle: { items: UploadItem[] }
+}
+
 export interface ValidatorAdapter<T, S> {
-  validate: (data: unknown, schema: S) => T
+  validate: (data: unknown, schema: S) => MaybePromise<T>
 }
 
+// The Standard Schema interface (https://standardschema.dev), implemented by
+// valibot, arktype, zod and others.
+export interface StandardSchemaIssue {
+  message: string
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>
+}
+
+export type StandardSchemaResult<T = unknown>
+  = | { value: T, issues?: undefined }
+    | { issues: ReadonlyArray<StandardSchemaIssue> }
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  '~standard': {
+    version: 1
+    vendor: string
+    validate: (value: unknown) => MaybePromise<StandardSchemaResult<Output>>
+    types?: { input: Input, output: Output }
+  }
+}
+
+// Response type implied by a schema, matched structurally so that none of the
+// optional validation libraries has to be installed for the types to resolve.
+export type InferSchema<S>
+  = 0 extends 1 & S ? any
+    : S extends { readonly '~standard': { readonly types?: { readonly output: infer O } } } ? O
+      : S extends { readonly _output: infer O } ? O
+        : S extends { readonly __outputType: infer O } ? O
+          : S extends { readonly _A: infer A, decode: unknown } ? A
+            : S extends { tag: string, inspect: unknown, parse: (x: never) => infer X } ? X
+              : S extends { $_terms: unknown, validate: (...args: any[]) => infer R }
+                ? R extends { error: undefined, value: infer V } ? V : never
+                : unknown
+
 export interface FetchesResponse<T = any> {
   data: T
   status: number
@@ -85,3 +475,33 @@ export interface FetchesResponse<T = any> {
   config: RequestConfig
   request?: Request
 }
+
+export interface RevalidateEvent<T = any> {
+  key: string
+  url: string
+  response?: FetchesResponse<T>
+  error?: Error
+}
+
+export interface ServerSentEvent<T = string> {
+  event: string
+  data: T
+  id?: string
+  retry?: number
+}
+
+export interface SSEConfig<T = string> extends RequestConfig {
+  json?: boolean
+  reconnect?: boolean
+  retryInterval?: number
+  maxRetries?: number
+  lastEventId?: string
+  onOpen?: (response: FetchesResponse<ReadableStream<Uint8Array>>) => void
+  onMessage?: (event: ServerSentEvent<T>) => void
+  onError?: (error: Error) => void
+}
+
+export interface FetchesEvents {
+  revalidate: RevalidateEvent
+  circuitStateChange: CircuitStateChangeEvent
+}
@@ -0,0 +1,224 @@
+import type Fetches from './fetches.js'
+import type { TusUpload } from './tus.js'
+import type {
+  FetchesProgressEvent,
+  UploadItem,
+  UploadManagerConfig,
+  UploadManagerEvents,
+  UploadStatus,
+} from './types.js'
+import { EventEmitter } from './events.js'
+import { createProgressEvent } from './progress.js'
+
+interface UploadEntry {
+  item: UploadItem
+  controller?: AbortController
+  upload?: TusUpload
+  // Replaced on every start, so an attempt that was paused and is still
+  // settling cannot touch the state of the one that resumed it.
+  attempt?: object
+}
+
+// Uploads files one request each, at most `concurrency` at a time, in the
+// order they were added. With `resumable` set, files go through tus and
+// paused uploads continue from the server offset instead of restarting.
+export class UploadManager {
+  private readonly fetches: Fetches
+  private readonly config: UploadManagerConfig
+  private readonly events = new EventEmitter<UploadManagerEvents>()
+  private readonly entries = new Map<string, UploadEntry>()
+  private running = 0
+
+  constructor(fetches: Fetches, config: UploadManagerConfig) {
+    this.fetches = fetches
+    this.config = config
+  }
+
+  on<K extends keyof UploadManagerEvents>(
+    type: K,
+    listener: (event: UploadManagerEvents[K]) => void,
+  ): () => void {
+    return this.events.on(type, listener)
+  }
+
+  add(files: Blob | Blob[]): UploadItem[] {
+    const items = (Array.isArray(files) ? files : [files]).map((file) => {
+      const item: UploadItem = {
+        id: crypto.randomUUID(),
+        file,
+        name: file instanceof File ? file.name : '',
+        status: 'queued',
+        progress: createProgressEvent(0, file.size),
+      }
+
+      this.entries.set(item.id, { item })
+      this.events.emit('add', item)
+      return item
+    })
+
+    this.drain()
+    return items
+  }
+
+  get(id: string): UploadItem | undefined {
+    return this.entries.get(id)?.item
+  }
+
+  get items(): UploadItem[] {
+    return [...this.entries.values()].map(entry => entry.item)
+  }
+
+  get progress(): FetchesProgressEvent {
+    let loaded = 0
+    let total = 0
+
+    for (const { item } of this.entries.values()) {
+      loaded += item.progress.loaded
+      total += item.file.size
+    }
+
+    return createProgressEvent(loaded, total)
+  }
+
+  pause(id: string): void {
+    const entry = this.entries.get(id)
+    if (entry?.item.status !== 'queued' && entry?.item.status !== 'uploading')
+      return
+
+    this.setStatus(entry, 'paused')
+    entry.controller?.abort()
+    entry.upload?.pause()
+  }
+
+  resume(id: string): void {
+    const entry = this.entries.get(id)
+    if (entry?.item.status !== 'paused')
+      return
+
+    this.setStatus(entry, 'queued')
+    this.drain()
+  }
+
+  retry(id: string): void {
+    const entry = this.entries.get(id)
+    if (entry?.item.status !== 'failed')
+      return
+
+    entry.item.error = undefined
+    this.setStatus(entry, 'queued')
+    this.drain()
+  }
+
+  // Stops the file if it is uploading and removes it from the manager.
+  cancel(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry)
+      return
+
+    this.entries.delete(id)
+    entry.controller?.abort()
+    void entry.upload?.abort().catch(() => {})
+    this.events.emit('remove', entry.item)
+  }
+
+  cancelAll(): void {
+    for (const id of [...this.entries.keys()]) {
+      this.cancel(id)
+    }
+  }
+
+  private drain(): void {
+    for (const entry of this.entries.values()) {
+      if (this.running >= (this.config.concurrency ?? 3))
+        return
+
+      if (entry.item.status === 'queued') {
+        void this.start(entry)
+      }
+    }
+
+    if (this.running === 0) {
+      this.events.emit('idle', { items: this.items })
+    }
+  }
+
+  private async start(entry: UploadEntry): Promise<void> {
+    const { item } = entry
+    const attempt = {}
+    entry.attempt = attempt
+    this.running++
+    this.setStatus(entry, 'uploading')
+
+    try {
+      if (this.config.resumable) {
+        entry.upload ??= this.fetches.resumableUpload(item.file, {
+          ...this.config.resumable,
+          endpoint: this.config.url,
+          onProgress: event => this.updateProgress(entry, event),
+        })
+
+        await entry.upload.start()
+        item.uploadUrl = entry.upload.url
+      }
+      else {
+        const { url, concurrency, resumable, ...config } = this.config
+        const controller = new AbortController()
+        entry.controller = controller
+
+        // Restarts from zero, so the progress of an interrupted attempt is dropped.
+        this.updateProgress(entry, createProgressEvent(0, item.file.size))
+        item.response = await this.fetches.upload(url, item.file, {
+          ...config,
+          signal: controller.signal,
+          onUploadProgress: (event) => {
+            if (entry.attempt === attempt) {
+              this.updateProgress(entry, event)
+            }
+          },
+        })
+      }
+
+      if (this.isActive(entry, attempt)) {
+        this.updateProgress(entry, createProgressEvent(item.file.size, item.file.size))
+        this.setStatus(entry, 'done')
+      }
+    }
+    catch (error) {
+      if (this.isActive(entry, attempt)) {
+        item.error = error as Error
+        this.setStatus(entry, 'failed')
+      }
+    }
+    finally {
+      if (entry.attempt === attempt) {
+        entry.controller = undefined
+      }
+      this.running--
+      this.drain()
+    }
+  }
+
+  // Paused or cancelled files settle quietly, so their outcome is ignored.
+  private isActive(entry: UploadEntry, attempt: object): boolean {
+    return this.entries.get(entry.item.id) === entry
+      && entry.attempt === attempt
+      && entry.item.status === 'uploading'
+  }
+
+  private setStatus(entry: UploadEntry, status: UploadStatus): void {
+    entry.item.status = status
+    this.events.emit('statusChange', entry.item)
+  }
+
+  // Multipart bodies are larger than the file itself, so progress is scaled
+  // to the file size for the overall numbers to add up.
+  private updateProgress(entry: UploadEntry, event: FetchesProgressEvent): void {
+    const size = entry.item.file.size
+    const loaded = event.progress === undefined
+      ? Math.min(event.loaded, size)
+      : Math.round(event.progress * size)
+
+    entry.item.progress = createProgressEvent(loaded, size)
+    this.events.emit('progress', { item: entry.item, overall: this.progress })
+  }
+}
@@ -1,7 +1,9 @@
-import type { UploadOptions } from './types.js'
+import type { FetchesProgressEvent, UploadOptions } from './types.js'
 import { FetchesNetworkError, FetchesResponseError, FetchesTimeoutError } from './errors.js'
+import { NULL_BODY_STATUSES } from './http-cache.js'
+import { createProgressEvent } from './progress.js'
 
-export async function uploadFile(url: string, file: File | Blob | Array<File | Blob>, options: UploadOptions = {}): Promise<Response> {
+export function createFormData(file: File | Blob | Array<File | Blob>, fields?: Record<string, any>): FormData {
   const formData = new FormData()
 
   if (Array.isArray(file)) {
@@ -13,8 +15,8 @@ export async function uploadFile(url: string, file: File | Blob | Array<File | B
     formData.append('file', file)
   }
 
-  if (options.fields) {
-    Object.entries(options.fields).forEach(([key, value]) => {
+  if (fields) {
+    Object.entries(fields).forEach(([key, value]) => {
       if (Array.isArray(value)) {
         value.forEach(v => formData.append(key, v))
       }
@@ -24,6 +26,12 @@ export async function uploadFile(url: string, file: File | Blob | Array<File | B
     })
   }
 
+  return formData
+}
+
+export async function uploadFile(url: string, file: File | Blob | Array<File | Blob>, options: UploadOptions = {}): Promise<Response> {
+  const formData = createFormData(file, options.fields)
+
   const xhr = new XMLHttpRequest()
 
   return new Promise((resolve, reject) => {
@@ -130,3 +138,63 @@ export function createUploader() {
     cancelAll,
   }
 }
+
+export function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof document !== 'undefined'
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers()
+
+  for (const line of raw.trim().split(/\r?\n/)) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+    }
+  }
+
+  return headers
+}
+
+// Sends a request through XMLHttpRequest for its upload progress events and
+// resolves with a regular Response, so callers can treat it like fetch().
+export function sendWithXHR(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (event: FetchesProgressEvent) => void,
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const signal = init.signal
+
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = (): void => xhr.abort()
+
+    xhr.open(init.method ?? 'GET', url)
+    xhr.responseType = 'blob'
+    xhr.withCredentials = init.credentials === 'include'
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value))
+
+    xhr.upload.addEventListener('progress', (event) => {
+      onUploadProgress(createProgressEvent(event.loaded, event.lengthComputable ? event.total : undefined))
+    })
+
+    xhr.addEventListener('load', () => {
+      resolve(new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+      }))
+    })
+    xhr.addEventListener('error', () => reject(new FetchesNetworkError('Network request failed')))
+    xhr.addEventListener('abort', () => reject(signal?.reason ?? new Error('Request aborted')))
+    xhr.addEventListener('loadend', () => signal?.removeEventListener('abort', onAbort))
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined)
+  })
+}
@@ -1,25 +1,109 @@
-import type { ValidatorAdapter, ValidatorType } from '../types.js'
-import { IoTsValidatorAdapter } from './io-ts.js'
-import { JoiValidatorAdapter } from './joi.js'
-import { RuntimesValidatorAdapter } from './runtypes.js'
-import { YupValidatorAdapter } from './yup.js'
-import { ZodValidatorAdapter } from './zod.js'
+import type { MaybePromise, ValidatorAdapter, ValidatorType } from '../types.js'
+
+export type ValidatorLoader = () => MaybePromise<ValidatorAdapter<unknown, any>>
+
+interface ValidatorRegistration {
+  name: ValidatorType
+  load: ValidatorLoader
+  detect?: (schema: unknown) => boolean
+  adapter?: Promise<ValidatorAdapter<unknown, any>>
+}
+
+function hasKeys(schema: unknown, ...keys: string[]): boolean {
+  return (typeof schema === 'object' || typeof schema === 'function')
+    && schema !== null
+    && keys.every(key => key in schema)
+}
+
+// Adapters are imported on first use, so bundles only carry the ones needed.
+// Library checks come before Standard Schema, since zod and others implement
+// both and their own adapters report more detailed issues.
+const BUILTIN_VALIDATORS: ValidatorRegistration[] = [
+  {
+    name: 'zod',
+    load: () => import('./zod.js').then(module => new module.ZodValidatorAdapter()),
+    detect: schema => hasKeys(schema, '_def', 'safeParse'),
+  },
+  {
+    name: 'yup',
+    load: () => import('./yup.js').then(module => new module.YupValidatorAdapter()),
+    detect: schema => hasKeys(schema, '__isYupSchema__'),
+  },
+  {
+    name: 'joi',
+    load: () => import('./joi.js').then(module => new module.JoiValidatorAdapter()),
+    detect: schema => hasKeys(schema, '$_root', 'validate'),
+  },
+  {
+    name: 'runtypes',
+    load: () => import('./runtypes.js').then(module => new module.RuntimesValidatorAdapter()),
+    detect: schema => hasKeys(schema, 'tag', 'check', 'inspect'),
+  },
+  {
+    name: 'io-ts',
+    load: () => import('./io-ts.js').then(module => new module.IoTsValidatorAdapter()),
+    detect: schema => hasKeys(schema, '_tag', 'decode', 'is'),
+  },
+  {
+    name: 'standard',
+    load: () => import('./standard.js').then(module => new module.StandardSchemaValidatorAdapter()),
+    detect: schema => hasKeys(schema, '~standard'),
+  },
+]
 
 export class ValidatorFactory {
-  static createValidator(type: ValidatorType): ValidatorAdapter<unknown, unknown> {
-    switch (type) {
-      case 'zod':
-        return new ZodValidatorAdapter()
-      case 'yup':
-        return new YupValidatorAdapter()
-      case 'io-ts':
-        return new IoTsValidatorAdapter()
-      case 'runtypes':
-        return new RuntimesValidatorAdapter()
-      case 'joi':
-        return new JoiValidatorAdapter()
-      default:
-        throw new Error(`Unsupported validator type: ${type}`)
+  private static readonly registrations: ValidatorRegistration[] = [...BUILTIN_VALIDATORS]
+
+  // Custom adapters are checked before the built-in ones, and registering an
+  // existing name replaces it.
+  static register(
+    name: ValidatorType,
+    adapter: ValidatorAdapter<unknown, any> | ValidatorLoader,
+    detect?: (schema: unknown) => boolean,
+  ): void {
+    this.unregister(name)
+    this.registrations.unshift({
+      name,
+      load: typeof adapter === 'function' ? adapter : () => adapter,
+      detect,
+    })
+  }
+
+  static unregister(name: ValidatorType): void {
+    const index = this.registrations.findIndex(registration => registration.name === name)
+    if (index > -1) {
+      this.registrations.splice(index, 1)
     }
   }
+
+  static async createValidator(schema: unknown, type?: ValidatorType): Promise<ValidatorAdapter<unknown, any>> {
+    const registration = type === undefined
+      ? this.registrations.find(registration => registration.detect?.(schema))
+      : this.registrations.find(registration => registration.name === type)
+
+    if (!registration) {
+      throw new Error(type === undefined
+        ? 'Could not detect the validator for this schema, set validatorType or register an adapter'
+        : `Unsupported validator type: ${type}`)
+    }
+
+    // A failed import is not cached, so the next request tries again.
+    registration.adapter ??= Promise.resolve().then(registration.load).catch((error) => {
+      registration.adapter = undefined
+      throw error
+    })
+    return registration.adapter
+  }
+}
+
+export function registerValidator(
+  name: ValidatorType,
+  adapter: ValidatorAdapter<unknown, any> | ValidatorLoader,
+  detect?: (schema: unknown) => boolean,
+): void {
+  ValidatorFactory.register(name, adapter, detect)
+}
+
+export function unregisterValidator(name: ValidatorType): void {
+  ValidatorFactory.unregister(name)
 }
@@ -1,6 +1,8 @@
 export * from './factory.js'
 export * from './io-ts.js'
+export * from './issues.js'
 export * from './joi.js'
 export * from './runtypes.js'
+export * from './standard.js'
 export * from './yup.js'
 export * from './zod.js'
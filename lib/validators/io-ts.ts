@@ -1,12 +1,37 @@
 import type * as t from 'io-ts'
-import type { ValidatorAdapter } from '../types.js'
+import type { ValidationIssue, ValidatorAdapter } from '../types.js'
 import { FetchesValidationError } from '../errors.js'
+import { describeValue, formatIssues } from './issues.js'
+
+const INDEXED_TYPES = ['ArrayType', 'ReadonlyArrayType', 'TupleType', 'ReadonlyTupleType']
+
+function toIssue(error: t.ValidationError): ValidationIssue {
+  const path: Array<string | number> = []
+
+  // The first context entry is the root type, keyed by an empty string.
+  error.context.slice(1).forEach((entry, index) => {
+    const parent = error.context[index].type as { _tag?: string }
+    path.push(INDEXED_TYPES.includes(parent._tag ?? '') ? Number(entry.key) : entry.key)
+  })
+
+  const expected = error.context.at(-1)?.type.name
+  const received = describeValue(error.value)
+
+  return {
+    path,
+    message: error.message ?? `Expected ${expected}, received ${received}`,
+    code: 'invalid_type',
+    expected,
+    received,
+  }
+}
 
 export class IoTsValidatorAdapter implements ValidatorAdapter<unknown, t.Type<unknown>> {
   validate(data: unknown, schema: t.Type<unknown>): unknown {
     const result = schema.decode(data)
     if (result._tag === 'Left') {
-      throw new FetchesValidationError('io-ts validation failed')
+      const issues = result.left.map(toIssue)
+      throw new FetchesValidationError(formatIssues(issues), { issues, data })
     }
     return result.right
   }
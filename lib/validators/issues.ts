@@ -0,0 +1,39 @@
+import type { ValidationIssue } from '../types.js'
+
+const PATH_SEGMENT = /\[(\d+)\]|\["((?:[^"\\]|\\.)*)"\]|[^.[\]]+/g
+
+// Parses dotted paths such as `items[0].name` or `map["a.b"]` into segments.
+export function parsePath(path: string | undefined): Array<string | number> {
+  if (!path)
+    return []
+
+  return Array.from(path.matchAll(PATH_SEGMENT), (match) => {
+    if (match[1] !== undefined)
+      return Number(match[1])
+    return match[2] ?? match[0]
+  })
+}
+
+export function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number')
+      return `${result}[${segment}]`
+    return result ? `${result}.${segment}` : segment
+  }, '')
+}
+
+export function describeValue(value: unknown): string {
+  if (value === null)
+    return 'null'
+  if (Array.isArray(value))
+    return 'array'
+  return typeof value
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  const details = issues.map(issue => issue.path.length > 0
+    ? `${formatPath(issue.path)}: ${issue.message}`
+    : issue.message)
+
+  return `Validation failed: ${details.join('; ')}`
+}
@@ -1,13 +1,24 @@
 import type Joi from 'joi'
-import type { ValidatorAdapter } from '../types.js'
+import type { ValidationIssue, ValidatorAdapter } from '../types.js'
 import { FetchesValidationError } from '../errors.js'
+import { describeValue, formatIssues } from './issues.js'
 
 export class JoiValidatorAdapter implements ValidatorAdapter<unknown, Joi.Schema> {
   validate(data: unknown, schema: Joi.Schema): unknown {
-    const { error, value } = schema.validate(data)
-    if (error) {
-      throw new FetchesValidationError(error.message)
+    const { error, value } = schema.validate(data, { abortEarly: false })
+    if (!error) {
+      return value
     }
-    return value
+
+    const issues: ValidationIssue[] = error.details.map(detail => ({
+      path: detail.path,
+      message: detail.message,
+      code: detail.type,
+      // Type mismatches are reported as `<type>.base`, e.g. `number.base`.
+      expected: detail.type.endsWith('.base') ? detail.type.slice(0, -'.base'.length) : undefined,
+      received: detail.context && 'value' in detail.context ? describeValue(detail.context.value) : undefined,
+    }))
+
+    throw new FetchesValidationError(formatIssues(issues), { issues, data })
   }
 }
@@ -1,6 +1,47 @@
 import type * as rt from 'runtypes'
-import type { ValidatorAdapter } from '../types.js'
+import type { ValidationIssue, ValidatorAdapter } from '../types.js'
 import { FetchesValidationError } from '../errors.js'
+import { describeValue, formatIssues } from './issues.js'
+
+interface RuntypesFailure {
+  code: string
+  message: string
+  expected: { tag: string }
+  received?: unknown
+  details?: Record<string, RuntypesFailure>
+  detail?: RuntypesFailure
+}
+
+// Walks the nested failure down to the properties that actually failed.
+// Union failures list every member, so they are reported as one issue.
+function collectIssues(failure: RuntypesFailure, path: Array<string | number>, issues: ValidationIssue[]): void {
+  const { tag } = failure.expected
+
+  if (failure.details && tag !== 'union') {
+    for (const [key, child] of Object.entries(failure.details)) {
+      if (tag === 'intersect') {
+        collectIssues(child, path, issues)
+      }
+      else {
+        collectIssues(child, [...path, tag === 'array' || tag === 'tuple' ? Number(key) : key], issues)
+      }
+    }
+    return
+  }
+
+  if (failure.detail) {
+    collectIssues(failure.detail, path, issues)
+    return
+  }
+
+  issues.push({
+    path,
+    message: failure.message,
+    code: failure.code,
+    expected: tag,
+    received: 'received' in failure ? describeValue(failure.received) : undefined,
+  })
+}
 
 export class RuntimesValidatorAdapter implements ValidatorAdapter<unknown, rt.Runtype<unknown>> {
   validate(data: unknown, schema: rt.Runtype<unknown>): unknown {
@@ -8,7 +49,14 @@ export class RuntimesValidatorAdapter implements ValidatorAdapter<unknown, rt.Ru
       return schema.check(data)
     }
     catch (error) {
-      throw new FetchesValidationError(`Runtypes validation failed: ${(error as Error).message}`)
+      const failure = (error as { failure?: RuntypesFailure }).failure
+      if (!failure)
+        throw error
+
+      const issues: ValidationIssue[] = []
+      collectIssues(failure, [], issues)
+
+      throw new FetchesValidationError(formatIssues(issues), { issues, data })
     }
   }
 }
@@ -0,0 +1,26 @@
+import type { StandardSchemaIssue, StandardSchemaV1, ValidationIssue, ValidatorAdapter } from '../types.js'
+import { FetchesValidationError } from '../errors.js'
+import { formatIssues } from './issues.js'
+
+function toIssue(issue: StandardSchemaIssue): ValidationIssue {
+  return {
+    path: (issue.path ?? []).map((segment) => {
+      const key = typeof segment === 'object' ? segment.key : segment
+      return typeof key === 'number' ? key : String(key)
+    }),
+    message: issue.message,
+  }
+}
+
+export class StandardSchemaValidatorAdapter implements ValidatorAdapter<unknown, StandardSchemaV1> {
+  async validate(data: unknown, schema: StandardSchemaV1): Promise<unknown> {
+    const result = await schema['~standard'].validate(data)
+
+    if (result.issues) {
+      const issues = result.issues.map(toIssue)
+      throw new FetchesValidationError(formatIssues(issues), { issues, data })
+    }
+
+    return result.value
+  }
+}
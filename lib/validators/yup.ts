@@ -1,14 +1,27 @@
-import type { Schema as YupSchema } from 'yup'
-import type { ValidatorAdapter } from '../types.js'
+import type { Schema as YupSchema, ValidationError as YupValidationError } from 'yup'
+import type { ValidationIssue, ValidatorAdapter } from '../types.js'
 import { FetchesValidationError } from '../errors.js'
+import { describeValue, formatIssues, parsePath } from './issues.js'
 
 export class YupValidatorAdapter implements ValidatorAdapter<unknown, YupSchema<unknown>> {
   validate(data: unknown, schema: YupSchema<unknown>): unknown {
     try {
-      return schema.validateSync(data)
+      return schema.validateSync(data, { abortEarly: false })
     }
     catch (error) {
-      throw new FetchesValidationError(`Yup validation failed: ${(error as Error).message}`)
+      if (!(error instanceof Error) || error.name !== 'ValidationError')
+        throw error
+
+      const { inner } = error as YupValidationError
+      const issues: ValidationIssue[] = (inner.length > 0 ? inner : [error as YupValidationError]).map(item => ({
+        path: parsePath(item.path),
+        message: item.message,
+        code: item.type,
+        expected: item.type === 'typeError' ? String(item.params?.type) : undefined,
+        received: item.type === 'typeError' ? describeValue(item.params?.originalValue ?? item.params?.value) : undefined,
+      }))
+
+      throw new FetchesValidationError(formatIssues(issues), { issues, data })
     }
   }
 }
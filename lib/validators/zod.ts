@@ -1,14 +1,23 @@
 import type { ZodSchema } from 'zod'
-import type { ValidatorAdapter } from '../types.js'
+import type { ValidationIssue, ValidatorAdapter } from '../types.js'
 import { FetchesValidationError } from '../errors.js'
+import { formatIssues } from './issues.js'
 
 export class ZodValidatorAdapter implements ValidatorAdapter<unknown, ZodSchema<unknown>> {
   validate(data: unknown, schema: ZodSchema<unknown>): unknown {
-    try {
-      return schema.parse(data)
-    }
-    catch (error) {
-      throw new FetchesValidationError(`Zod validation failed: ${(error as Error).message}`)
+    const result = schema.safeParse(data)
+    if (result.success) {
+      return result.data
     }
+
+    const issues: ValidationIssue[] = result.error.issues.map(issue => ({
+      path: issue.path,
+      message: issue.message,
+      code: issue.code,
+      expected: 'expected' in issue ? String(issue.expected) : undefined,
+      received: 'received' in issue ? String(issue.received) : undefined,
+    }))
+
+    throw new FetchesValidationError(formatIssues(issues), { issues, data })
   }
 }
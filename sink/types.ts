@@ -0,0 +1,64 @@
+// Type-level checks for schema inference: this file only has to compile.
+import type { FetchesResponse, InferSchema } from '../lib/index.js'
+import * as t from 'io-ts'
+import Joi from 'joi'
+import { Number, Object as RObject, String } from 'runtypes'
+import * as yup from 'yup'
+import { z } from 'zod'
+import { createFetches } from '../lib/index.js'
+
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends (<V>() => V extends B ? 1 : 2) ? true : false
+function expectType<T extends true>(_check?: T): void {}
+
+// Only compiles when the response data is exactly `Expected`.
+function expectData<Expected>() {
+  return <R>(_request: Promise<FetchesResponse<R>>, ..._check: Equal<R, Expected> extends true ? [] : [never]): void => {}
+}
+
+interface User {
+  id: number
+  name: string
+}
+
+const zodUser = z.object({ id: z.number(), name: z.string() })
+const yupUser = yup.object({ id: yup.number().required(), name: yup.string().required() })
+const ioTsUser = t.type({ id: t.number, name: t.string })
+const runtypesUser = RObject({ id: Number, name: String })
+const joiUser = Joi.object<User>({ id: Joi.number(), name: Joi.string() })
+
+expectType<Equal<InferSchema<typeof zodUser>, User>>()
+expectType<Equal<InferSchema<typeof yupUser>, User>>()
+expectType<Equal<InferSchema<typeof ioTsUser>, User>>()
+expectType<Equal<InferSchema<typeof runtypesUser>, User>>()
+expectType<Equal<InferSchema<typeof joiUser>, User>>()
+expectType<Equal<InferSchema<typeof z.string>, unknown>>()
+
+const api = createFetches()
+
+function checkClients(): void {
+  const users = api.create(zodUser)
+  expectData<User>()(users.get('/users/1'))
+  expectData<User>()(users.post('/users', {}))
+
+  expectData<User>()(api.create(yupUser).get('/users/1'))
+  expectData<User>()(api.create(ioTsUser).get('/users/1'))
+  expectData<User>()(api.create(runtypesUser).get('/users/1'))
+  expectData<User>()(api.create(joiUser).get('/users/1'))
+
+  // Explicit type arguments keep working.
+  expectData<{ id: string }>()(api.create<{ id: string }>(zodUser).get('/users/1'))
+  expectData<unknown>()(api.create().get('/users/1'))
+}
+
+function checkRequests(): void {
+  expectData<User>()(api.get('/users/1', { validatorSchema: zodUser }))
+  expectData<User>()(api.post('/users', {}, { validatorSchema: yupUser }))
+  expectData<User>()(api.put('/users/1', {}, { validatorSchema: ioTsUser }))
+  expectData<User>()(api.patch('/users/1', {}, { validatorSchema: runtypesUser }))
+  expectData<User>()(api.delete('/users/1', { validatorSchema: joiUser }))
+
+  expectData<{ id: string }>()(api.get<{ id: string }>('/users/1', { validatorSchema: zodUser }))
+  expectData<any>()(api.get('/users/1'))
+}
+
+export { checkClients, checkRequests }
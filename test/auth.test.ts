@@ -0,0 +1,148 @@
+import type { AuthCredentials } from '../lib/index.js'
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesResponseError, MockAdapter } from '../lib/index.js'
+
+describe('auth', () => {
+  it('keeps credentials out of serialized errors', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/private').reply(500, 'boom')
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      retry: { attempts: 2, backoff: 'linear', initialDelay: 0 },
+      auth: { credentials: { type: 'apiKey', in: 'header', name: 'X-Secret-Token', value: 'secret' } },
+    })
+    const error = await fetches.get('/private').catch(error => error)
+
+    expect(mock.history[0].headers.get('X-Secret-Token')).toBe('secret')
+    expect(JSON.stringify(error)).not.toContain('secret')
+  })
+
+  it('keeps query API keys out of serialized errors', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/private').reply(500, 'boom')
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      auth: { credentials: { type: 'apiKey', in: 'query', name: 'key', value: 'secret' } },
+    })
+    const error = await fetches.get('/private').catch(error => error)
+
+    expect(mock.history[0].params.key).toBe('secret')
+    expect(JSON.stringify(error)).not.toContain('secret')
+  })
+
+  describe('refresh', () => {
+    const stale: AuthCredentials = { type: 'bearer', token: 'stale' }
+    const fresh: AuthCredentials = { type: 'bearer', token: 'fresh' }
+
+    // Accepts only the fresh token.
+    function createMock(): MockAdapter {
+      const mock = new MockAdapter()
+      mock.onAny(/\/item/).reply(request => request.headers.get('Authorization') === 'Bearer fresh'
+        ? { body: { ok: true } }
+        : { status: 401, body: 'expired' })
+      return mock
+    }
+
+    it('shares one refresh between concurrent failures and replays them', async () => {
+      const mock = createMock()
+      let refreshes = 0
+
+      const fetches = createFetches({
+        adapter: mock.adapter,
+        auth: {
+          credentials: stale,
+          refresh: async () => {
+            refreshes++
+            return fresh
+          },
+        },
+      })
+      const responses = await Promise.all(['/item/1', '/item/2', '/item/3'].map(url => fetches.get(url)))
+
+      expect(refreshes).toBe(1)
+      expect(responses.map(response => response.data)).toEqual([{ ok: true }, { ok: true }, { ok: true }])
+      expect(mock.history.filter(request => request.headers.get('Authorization') === 'Bearer fresh')).toHaveLength(3)
+    })
+
+    it('holds requests started during a refresh until it completes', async () => {
+      const mock = createMock()
+      let started!: () => void
+      let release!: () => void
+      const refreshStarted = new Promise<void>((resolve) => {
+        started = resolve
+      })
+
+      const fetches = createFetches({
+        adapter: mock.adapter,
+        auth: {
+          credentials: stale,
+          refresh: async () => {
+            started()
+            await new Promise<void>((resolve) => {
+              release = resolve
+            })
+            return fresh
+          },
+        },
+      })
+      const first = fetches.get('/item/1')
+      await refreshStarted
+      const second = fetches.get('/item/2')
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      expect(mock.history.map(request => request.url)).toEqual(['/item/1'])
+      release()
+      await Promise.all([first, second])
+
+      const sent = mock.history.map(request => `${request.url} ${request.headers.get('Authorization')}`)
+      expect(sent[0]).toBe('/item/1 Bearer stale')
+      expect(sent.slice(1).sort()).toEqual(['/item/1 Bearer fresh', '/item/2 Bearer fresh'])
+    })
+
+    it('reports a failed refresh and rejects with the original error', async () => {
+      const mock = createMock()
+      const failures: unknown[] = []
+      const refreshError = new Error('refresh token revoked')
+
+      const fetches = createFetches({
+        adapter: mock.adapter,
+        auth: {
+          credentials: stale,
+          refresh: async () => {
+            throw refreshError
+          },
+          onRefreshFailure: error => failures.push(error),
+        },
+      })
+      const error = await fetches.get('/item/1').catch(error => error)
+
+      expect(failures).toEqual([refreshError])
+      expect(error).toBeInstanceOf(FetchesResponseError)
+      expect(error.response.status).toBe(401)
+    })
+
+    it('leaves 401 responses to the refresh instead of retrying them', async () => {
+      const mock = createMock()
+      let refreshes = 0
+
+      const fetches = createFetches({
+        adapter: mock.adapter,
+        retry: { attempts: 3, backoff: 'linear', initialDelay: 0, statusCodes: [401] },
+        auth: {
+          credentials: stale,
+          refresh: async () => {
+            refreshes++
+            return { type: 'bearer', token: 'still-stale' }
+          },
+        },
+      })
+      const error = await fetches.get('/item/1').catch(error => error)
+
+      expect(error.response.status).toBe(401)
+      expect(refreshes).toBe(1)
+      expect(mock.history.map(request => request.headers.get('Authorization'))).toEqual(['Bearer stale', 'Bearer still-stale'])
+    })
+  })
+})
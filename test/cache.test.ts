@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesError, MemoryCacheStorage, MockAdapter } from '../lib/index.js'
+
+describe('cache', () => {
+  it('serves repeated JSON requests from the cache', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/data').reply(200, { ok: true })
+
+    const fetches = createFetches({ adapter: mock.adapter })
+    await fetches.get('/data')
+    const { data } = await fetches.get('/data')
+
+    expect(data).toEqual({ ok: true })
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('does not cache binary responses', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/file').reply(200, new Blob(['bytes']))
+
+    const fetches = createFetches({ adapter: mock.adapter })
+    await fetches.get('/file', { responseType: 'arrayBuffer' })
+    const { data } = await fetches.get('/file', { responseType: 'blob' })
+    await fetches.get('/file', { responseType: 'blob' })
+
+    expect(await (data as Blob).text()).toBe('bytes')
+    expect(mock.history).toHaveLength(3)
+    expect(await fetches.cache.get('/file', { responseType: 'blob' })).toBeNull()
+  })
+
+  it('purges expired entries once maxStale has passed', async () => {
+    const storage = new MemoryCacheStorage()
+    const fetches = createFetches({ cache: { enabled: true, ttl: 10, maxStale: 5, storage } })
+
+    await fetches.cache.set('/old', 'old')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    await fetches.cache.set('/new', 'new')
+
+    expect(await storage.keys()).toEqual([expect.stringContaining('/new')])
+  })
+
+  it('keeps expired entries for strategies that serve them stale', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/data').replyOnce(200, 'first')
+    mock.onGet('/data').reply(200, 'second')
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      cache: { enabled: true, ttl: 10, strategy: 'stale-while-revalidate' },
+    })
+    await fetches.get('/data')
+    await new Promise(resolve => setTimeout(resolve, 20))
+    const { data } = await fetches.get('/data')
+
+    expect(data).toBe('first')
+  })
+
+  it('invalidates a URL and the paths below it', async () => {
+    const fetches = createFetches({ baseURL: 'https://api.test' })
+    const urls = ['/users', '/users/1', '/users-archive', '/teams/users']
+
+    await Promise.all(urls.map(url => fetches.cache.set(url, url)))
+    await fetches.cache.set('/users', 'page 2', { params: { page: 2 } })
+    await fetches.cache.invalidate('/users')
+
+    const remaining = await Promise.all(urls.map(url => fetches.cache.get(url)))
+    expect(remaining.map(response => response?.data)).toEqual([undefined, undefined, '/users-archive', '/teams/users'])
+    expect(await fetches.cache.get('/users', { params: { page: 2 } })).toBeNull()
+  })
+
+  it('invalidates cached reads after a write to the same URL', async () => {
+    const mock = new MockAdapter({ baseURL: 'https://api.test' })
+    mock.onAny(/users/).reply(200, 'ok')
+
+    const fetches = createFetches({ adapter: mock.adapter, baseURL: 'https://api.test' })
+    await fetches.cache.set('/users/1', 'user')
+    await fetches.cache.set('/users-archive', 'archive')
+    await fetches.post('/users', { name: 'new' })
+
+    expect(await fetches.cache.get('/users/1')).toBeNull()
+    expect((await fetches.cache.get('/users-archive'))?.data).toBe('archive')
+  })
+
+  it('serves stale entries to per-request strategies', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').reply(200, 'fresh').delay(200)
+    mock.onGet('/down').networkError()
+
+    const fetches = createFetches({ adapter: mock.adapter })
+    await fetches.cache.set('/slow', 'stale', { cacheTime: 1 })
+    await fetches.cache.set('/down', 'stale', { cacheTime: 1 })
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    const started = Date.now()
+    const revalidated = await fetches.get('/slow', { cacheStrategy: 'stale-while-revalidate' })
+    const elapsed = Date.now() - started
+    const fallback = await fetches.get('/down', { cacheStrategy: 'stale-if-error' })
+
+    expect(revalidated.data).toBe('stale')
+    expect(elapsed).toBeLessThan(100)
+    expect(fallback.data).toBe('stale')
+  })
+
+  it('does not fall back to stale entries when the caller cancels', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').reply(200, 'fresh').delay(50)
+
+    const fetches = createFetches({ adapter: mock.adapter, cache: { enabled: true, ttl: 1000, maxStale: 60000 } })
+    await fetches.cache.set('/slow', 'stale', { cacheTime: 1 })
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    const controller = new AbortController()
+    const aborted = fetches.get('/slow', { cacheStrategy: 'network-first', signal: controller.signal })
+      .catch(error => error)
+    controller.abort()
+    const cancelled = fetches.get('/slow', { cacheStrategy: 'stale-if-error', requestId: 'cancelled', dedupe: false })
+      .catch(error => error)
+    await new Promise(resolve => setTimeout(resolve, 5))
+    fetches.cancelRequest('cancelled')
+
+    expect(await aborted).toBeInstanceOf(FetchesError)
+    expect(await cancelled).toBeInstanceOf(FetchesError)
+  })
+})
@@ -0,0 +1,110 @@
+import type { CircuitBreakerConfig } from '../lib/index.js'
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesCircuitOpenError, MockAdapter } from '../lib/index.js'
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function setup(mock: MockAdapter, circuitBreaker: CircuitBreakerConfig) {
+  const fetches = createFetches({
+    baseURL: 'https://api.test',
+    adapter: mock.adapter,
+    cache: { enabled: false, ttl: 0 },
+    circuitBreaker,
+  })
+  const transitions: string[] = []
+  fetches.on('circuitStateChange', event => transitions.push(`${event.from}>${event.to}`))
+
+  return { fetches, transitions }
+}
+
+describe('circuit breaker', () => {
+  it('opens after consecutive failures', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('https://api.test/data').reply(500, 'down')
+
+    const { fetches, transitions } = setup(mock, { failureThreshold: 3 })
+    for (let i = 0; i < 3; i++)
+      await fetches.get('/data').catch(() => {})
+    const error = await fetches.get('/data').catch(error => error)
+
+    expect(transitions).toEqual(['closed>open'])
+    expect(error).toBeInstanceOf(FetchesCircuitOpenError)
+    expect(error.key).toBe('https://api.test')
+    expect(mock.history).toHaveLength(3)
+  })
+
+  it('opens once the failure rate crosses the threshold', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('https://api.test/data').replyOnce(200, 'up')
+    mock.onGet('https://api.test/data').replyOnce(500, 'down')
+    mock.onGet('https://api.test/data').replyOnce(200, 'up')
+    mock.onGet('https://api.test/data').reply(500, 'down')
+
+    const { fetches, transitions } = setup(mock, { failureThreshold: 10, failureRateThreshold: 0.5, minimumRequests: 4 })
+    for (let i = 0; i < 3; i++)
+      await fetches.get('/data').catch(() => {})
+
+    expect(transitions).toEqual([])
+
+    await fetches.get('/data').catch(() => {})
+
+    expect(transitions).toEqual(['closed>open'])
+  })
+
+  it('lets a trial through after the cooldown and closes when it succeeds', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('https://api.test/data').replyOnce(500, 'down')
+    mock.onGet('https://api.test/data').reply(200, 'up')
+
+    const { fetches, transitions } = setup(mock, { failureThreshold: 1, cooldown: 20 })
+    await fetches.get('/data').catch(() => {})
+
+    await expect(fetches.get('/data')).rejects.toBeInstanceOf(FetchesCircuitOpenError)
+
+    await sleep(30)
+    const { data } = await fetches.get('/data', { responseType: 'text' })
+
+    expect(data).toBe('up')
+    expect(transitions).toEqual(['closed>open', 'open>half-open', 'half-open>closed'])
+  })
+
+  it('limits the trial requests while half-open and reopens on failure', async () => {
+    const mock = new MockAdapter()
+    mock.onGet(/^https:\/\/api\.test\//).delay(10).reply(500, 'down')
+
+    const { fetches, transitions } = setup(mock, { failureThreshold: 1, cooldown: 20, halfOpenMaxRequests: 1 })
+    await fetches.get('/data').catch(() => {})
+    await sleep(30)
+
+    // Different paths, so the requests are not deduplicated into one.
+    const [trial, rejected] = await Promise.all([
+      fetches.get('/a').catch(error => error),
+      fetches.get('/b').catch(error => error),
+    ])
+
+    expect(trial).not.toBeInstanceOf(FetchesCircuitOpenError)
+    expect(rejected).toBeInstanceOf(FetchesCircuitOpenError)
+    expect(mock.history).toHaveLength(2)
+    expect(transitions).toEqual(['closed>open', 'open>half-open', 'half-open>open'])
+  })
+
+  it('fails fast without retrying while open', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('https://api.test/data').reply(500, 'down')
+    const retries: number[] = []
+
+    const fetches = createFetches({
+      baseURL: 'https://api.test',
+      adapter: mock.adapter,
+      circuitBreaker: { failureThreshold: 2 },
+      retry: { attempts: 5, backoff: 'linear', initialDelay: 0, onRetry: (_error, context) => retries.push(context.attempt) },
+    })
+    const error = await fetches.get('/data').catch(error => error)
+
+    expect(error).toBeInstanceOf(FetchesCircuitOpenError)
+    expect(retries).toEqual([1, 2])
+    expect(mock.history).toHaveLength(2)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createFetches, FetchesError, FetchesTimeoutError, MockAdapter } from '../lib/index.js'
+
+function setup() {
+  const mock = new MockAdapter()
+  mock.onGet('/items').reply(200, { items: [1, 2] }).delay(20)
+  return { mock, fetches: createFetches({ adapter: mock.adapter }) }
+}
+
+describe('dedupe', () => {
+  it('shares one request between identical calls', async () => {
+    const { mock, fetches } = setup()
+    const [first, second] = await Promise.all([fetches.get('/items'), fetches.get('/items')])
+
+    expect(mock.history).toHaveLength(1)
+    expect(second.data).toEqual(first.data)
+  })
+
+  it('gives every caller its own response', async () => {
+    const { fetches } = setup()
+    const [first, second] = await Promise.all([fetches.get('/items'), fetches.get('/items')])
+
+    first.data.items.push(3)
+    first.headers.set('x-changed', 'yes')
+
+    expect(second).not.toBe(first)
+    expect(second.data).toEqual({ items: [1, 2] })
+    expect(second.headers.has('x-changed')).toBe(false)
+  })
+
+  it('does not share requests with different headers', async () => {
+    const { mock, fetches } = setup()
+    await Promise.all([
+      fetches.get('/items', { headers: { 'Accept-Language': 'en' } }),
+      fetches.get('/items', { headers: { 'Accept-Language': 'de' } }),
+    ])
+
+    expect(mock.history).toHaveLength(2)
+  })
+
+  it('does not share requests with different schemas', async () => {
+    const { mock, fetches } = setup()
+    const [loose, strict] = await Promise.all([
+      fetches.get('/items', { validatorSchema: z.object({ items: z.array(z.number()) }) }),
+      fetches.get('/items', { validatorSchema: z.object({ items: z.array(z.string()) }) }).catch(error => error),
+    ])
+
+    expect(mock.history).toHaveLength(2)
+    expect(loose.data.items).toEqual([1, 2])
+    expect(strict).toBeInstanceOf(Error)
+  })
+
+  it('rejects only the caller cancelled through cancelRequest', async () => {
+    const { mock, fetches } = setup()
+    const first = fetches.get('/items', { requestId: 'first' })
+    const second = fetches.get('/items', { requestId: 'second' }).catch(error => error)
+    // Lets both calls reach the shared request before cancelling.
+    await new Promise(resolve => setTimeout(resolve, 5))
+    fetches.cancelRequest('second')
+
+    expect(await second).toBeInstanceOf(FetchesError)
+    expect((await first).data).toEqual({ items: [1, 2] })
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('rejects only the joiner whose signal aborts', async () => {
+    const { mock, fetches } = setup()
+    const controller = new AbortController()
+    const first = fetches.get('/items')
+    const second = fetches.get('/items', { signal: controller.signal }).catch(error => error)
+    controller.abort()
+
+    expect(await second).toBeInstanceOf(FetchesError)
+    expect((await first).data).toEqual({ items: [1, 2] })
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('keeps the shared request going when the first caller aborts', async () => {
+    const { mock, fetches } = setup()
+    const controller = new AbortController()
+    const first = fetches.get('/items', { signal: controller.signal }).catch(error => error)
+    const second = fetches.get('/items')
+    controller.abort()
+
+    expect(await first).toBeInstanceOf(FetchesError)
+    expect((await second).data).toEqual({ items: [1, 2] })
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('does not share requests with different timeouts', async () => {
+    const { mock, fetches } = setup()
+    const [short, long] = await Promise.all([
+      fetches.get('/items', { timeout: 5 }).catch(error => error),
+      fetches.get('/items', { timeout: 5000 }),
+    ])
+
+    expect(short).toBeInstanceOf(FetchesTimeoutError)
+    expect(long.data).toEqual({ items: [1, 2] })
+    expect(mock.history).toHaveLength(2)
+  })
+
+  it('reports download progress to every caller', async () => {
+    const { fetches } = setup()
+    const progress: number[] = []
+    await Promise.all([
+      fetches.get('/items'),
+      fetches.get('/items', { onDownloadProgress: event => progress.push(event.loaded) }),
+    ])
+
+    expect(progress.length).toBeGreaterThan(0)
+  })
+})
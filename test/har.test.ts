@@ -0,0 +1,94 @@
+import type { HarLog } from '../lib/index.js'
+import { Buffer } from 'node:buffer'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFetches, FetchesReplayMissError, HarAdapter, MockAdapter } from '../lib/index.js'
+
+describe('harAdapter', () => {
+  const binary = new Uint8Array([0xFF, 0xFE, 0x00, 0x80])
+  let directory: string
+  let path: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fetches-har-'))
+    path = join(directory, 'session.har')
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  async function record(): Promise<HarLog> {
+    const mock = new MockAdapter()
+    mock.onPost('/upload').reply(200, { stored: true })
+
+    const har = new HarAdapter({ path, mode: 'record', adapter: mock.adapter })
+    const fetches = createFetches({
+      adapter: har.adapter,
+      auth: { credentials: { type: 'apiKey', name: 'X-Session-Key', value: 'secret' } },
+    })
+    await fetches.post('/upload', binary.slice().buffer)
+    await har.save()
+
+    return JSON.parse(await readFile(path, 'utf8')) as HarLog
+  }
+
+  it('records binary request bodies as base64', async () => {
+    const { log } = await record()
+    const { postData, bodySize } = log.entries[0].request
+
+    expect(postData?._encoding).toBe('base64')
+    expect(postData?.text).toBe(Buffer.from(binary).toString('base64'))
+    expect(bodySize).toBe(4)
+  })
+
+  it('redacts custom credential headers', async () => {
+    const { log } = await record()
+    const header = log.entries[0].request.headers.find(({ name }) => name === 'x-session-key')
+
+    expect(header?.value).toBe('[REDACTED]')
+    expect(JSON.stringify(log)).not.toContain('secret')
+  })
+
+  it('replays binary requests by their bytes', async () => {
+    await record()
+
+    const har = new HarAdapter({ path })
+    const fetches = createFetches({ adapter: har.adapter })
+    const { data } = await fetches.post('/upload', binary.slice().buffer)
+    const error = await fetches.post('/upload', new Uint8Array([0xFF, 0xFE, 0x00, 0x81]).buffer).catch(error => error)
+
+    expect(data).toEqual({ stored: true })
+    expect(error).toBeInstanceOf(FetchesReplayMissError)
+  })
+
+  it('redacts query API keys and replays after the key changes', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/search').reply(200, { hits: 1 })
+
+    const recorder = new HarAdapter({ path, mode: 'record', adapter: mock.adapter, redactQuery: ['session'] })
+    const recording = createFetches({
+      adapter: recorder.adapter,
+      auth: { credentials: { type: 'apiKey', in: 'query', name: 'key', value: 'old-secret' } },
+    })
+    await recording.get('/search', { params: { q: 'cats', session: 'abc123' } })
+    await recorder.save()
+
+    const saved = await readFile(path, 'utf8')
+    const { request } = (JSON.parse(saved) as HarLog).log.entries[0]
+    expect(saved).not.toContain('old-secret')
+    expect(saved).not.toContain('abc123')
+    expect(request.queryString).toContainEqual({ name: 'key', value: '[REDACTED]' })
+    expect(request.queryString).toContainEqual({ name: 'q', value: 'cats' })
+
+    const replaying = createFetches({
+      adapter: new HarAdapter({ path, redactQuery: ['session'] }).adapter,
+      auth: { credentials: { type: 'apiKey', in: 'query', name: 'key', value: 'new-secret' } },
+    })
+    const { data } = await replaying.get('/search', { params: { q: 'cats', session: 'xyz789' } })
+
+    expect(data).toEqual({ hits: 1 })
+  })
+})
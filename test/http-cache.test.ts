@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, MockAdapter } from '../lib/index.js'
+
+describe('http cache policy', () => {
+  const cache = { enabled: true, ttl: 60_000, policy: 'http' } as const
+
+  it('serves responses fresh per Cache-Control max-age', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/data').reply(200, { ok: true }, { 'Cache-Control': 'max-age=60' })
+
+    const fetches = createFetches({ adapter: mock.adapter, cache })
+    await fetches.get('/data')
+    const { data } = await fetches.get('/data')
+
+    expect(data).toEqual({ ok: true })
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('does not store no-store responses', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/data').reply(200, { ok: true }, { 'Cache-Control': 'no-store, max-age=60' })
+
+    const fetches = createFetches({ adapter: mock.adapter, cache })
+    await fetches.get('/data')
+    await fetches.get('/data')
+
+    expect(mock.history).toHaveLength(2)
+  })
+
+  it('derives freshness from Expires', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/fresh').reply(200, 'fresh', { Expires: new Date(Date.now() + 60_000).toUTCString() })
+    mock.onGet('/expired').reply(200, 'expired', { Expires: new Date(Date.now() - 60_000).toUTCString() })
+
+    const fetches = createFetches({ adapter: mock.adapter, cache })
+    for (const url of ['/fresh', '/fresh', '/expired', '/expired'])
+      await fetches.get(url, { responseType: 'text' })
+
+    expect(mock.history.map(request => request.url)).toEqual(['/fresh', '/expired', '/expired'])
+  })
+
+  it('refetches when a Vary header differs', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/greeting').reply(request => ({
+      body: request.headers.get('Accept-Language') === 'fr' ? 'bonjour' : 'hello',
+      headers: { 'Cache-Control': 'max-age=60', 'Vary': 'Accept-Language' },
+    }))
+
+    const fetches = createFetches({ adapter: mock.adapter, cache })
+    const english = { responseType: 'text', headers: { 'Accept-Language': 'en' } } as const
+    await fetches.get('/greeting', english)
+    const cached = await fetches.get('/greeting', english)
+    const french = await fetches.get('/greeting', { responseType: 'text', headers: { 'Accept-Language': 'fr' } })
+
+    expect(cached.data).toBe('hello')
+    expect(french.data).toBe('bonjour')
+    expect(mock.history).toHaveLength(2)
+  })
+
+  it('revalidates with a 304 that declares a JSON content type', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/data').replyOnce(200, { version: 1 }, { 'Cache-Control': 'no-cache', 'ETag': '"v1"' })
+    mock.onGet('/data').reply(304, undefined, { 'Content-Type': 'application/json', 'ETag': '"v1"' })
+
+    const fetches = createFetches({ adapter: mock.adapter, cache })
+    await fetches.get('/data')
+    const { data, status } = await fetches.get('/data')
+
+    expect(mock.history[1].headers.get('If-None-Match')).toBe('"v1"')
+    expect(status).toBe(200)
+    expect(data).toEqual({ version: 1 })
+  })
+})
@@ -0,0 +1,82 @@
+import type { RequestConfig } from '../lib/index.js'
+import { describe, expect, it } from 'vitest'
+import { createFetches, MockAdapter } from '../lib/index.js'
+
+function setup() {
+  const mock = new MockAdapter({ baseURL: 'https://api.test' })
+  mock.onAny(/.*/).reply(200, { ok: true })
+
+  const fetches = createFetches({ baseURL: 'https://api.test', adapter: mock.adapter })
+  const calls: string[] = []
+  const record = (name: string) => (config: RequestConfig) => {
+    calls.push(name)
+    return config
+  }
+
+  return { fetches, calls, record }
+}
+
+describe('interceptors', () => {
+  it('keeps ids valid when other interceptors are ejected', async () => {
+    const { fetches, calls, record } = setup()
+    const a = fetches.interceptors.request.use(record('a'))
+    fetches.interceptors.request.use(record('b'))
+    const c = fetches.interceptors.request.use(record('c'))
+
+    fetches.interceptors.request.eject(a)
+    fetches.interceptors.request.eject(c)
+    await fetches.get('/items')
+
+    expect(calls).toEqual(['b'])
+  })
+
+  it('runs higher priorities first, then in the order added', async () => {
+    const { fetches, calls, record } = setup()
+    fetches.interceptors.request.use(record('low'))
+    fetches.interceptors.request.use(record('high'), undefined, { priority: 10 })
+    fetches.interceptors.request.use(record('mid'), undefined, { priority: 5 })
+    fetches.interceptors.request.use(record('high2'), undefined, { priority: 10 })
+    await fetches.get('/items')
+
+    expect(calls).toEqual(['high', 'high2', 'mid', 'low'])
+  })
+
+  it('skips interceptors whose runWhen returns false', async () => {
+    const { fetches, calls, record } = setup()
+    fetches.interceptors.request.use(record('post'), undefined, { runWhen: config => config.method === 'POST' })
+    await fetches.get('/items')
+    await fetches.post('/items', { name: 'item' })
+
+    expect(calls).toEqual(['post'])
+  })
+
+  it('limits interceptors to a relative or absolute url prefix', async () => {
+    const { fetches, calls, record } = setup()
+    fetches.interceptors.request.use(record('relative'), undefined, { urlPrefix: '/admin' })
+    fetches.interceptors.request.use(record('absolute'), undefined, { urlPrefix: 'https://api.test/admin' })
+    await fetches.get('/users')
+    await fetches.get('/admin/users')
+
+    expect(calls).toEqual(['relative', 'absolute'])
+  })
+
+  it('scopes interceptors added through create() to that client', async () => {
+    const { fetches, calls, record } = setup()
+    const client = fetches.create()
+    fetches.interceptors.request.use(record('root'))
+    client.interceptors.request.use(record('client'))
+
+    await fetches.get('/items')
+    await client.get('/items')
+
+    expect(calls).toEqual(['root', 'root', 'client'])
+
+    // Ids are shared, but a client only ejects or clears its own interceptors.
+    client.interceptors.request.eject(0)
+    client.interceptors.request.clear()
+    calls.length = 0
+    await client.get('/items')
+
+    expect(calls).toEqual(['root'])
+  })
+})
@@ -0,0 +1,85 @@
+import type { RequestConfig } from '../lib/index.js'
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { createFetches, FetchesResponseError, MockAdapter } from '../lib/index.js'
+
+describe('middleware', () => {
+  it('runs transformers inside user middleware', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/items').reply(200, { count: 1 })
+
+    const seen: RequestConfig[] = []
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      transformRequest: [config => ({ ...config, headers: { ...config.headers, 'X-Transformed': 'yes' } })],
+      transformResponse: [(_response, data) => ({ ...(data as object), transformed: true })],
+    })
+    fetches.use(async (context, next) => {
+      const response = await next()
+      seen.push(context.config)
+      return { ...response, data: { ...response.data, wrapped: true } }
+    })
+    const { data } = await fetches.get('/items')
+
+    expect(data).toEqual({ count: 1, transformed: true, wrapped: true })
+    expect(mock.history[0].headers.get('X-Transformed')).toBe('yes')
+    expect(new Headers(seen[0].headers).get('X-Transformed')).toBe('yes')
+  })
+
+  it('transforms requests once across retries', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/flaky').replyOnce(503, 'down')
+    mock.onGet('/flaky').reply(200, 'ok')
+
+    let calls = 0
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      retry: { attempts: 2, backoff: 'linear', initialDelay: 0 },
+      transformRequest: [(config) => {
+        calls++
+        return config
+      }],
+    })
+    await fetches.get('/flaky')
+
+    expect(mock.history).toHaveLength(2)
+    expect(calls).toBe(1)
+  })
+
+  it('transforms cached responses and error bodies', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/items').reply(200, { count: 1 })
+    mock.onGet('/missing').reply(404, { reason: 'gone' })
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      transformResponse: [(response, data) => ({ ...(data as object), status: response.status })],
+    })
+    await fetches.get('/items')
+    const cached = await fetches.get('/items')
+    const error = await fetches.get('/missing').catch(error => error)
+
+    expect(mock.history).toHaveLength(2)
+    expect(cached.data).toEqual({ count: 1, status: 200 })
+    expect(error).toBeInstanceOf(FetchesResponseError)
+    expect(error.data).toEqual({ reason: 'gone', status: 404 })
+  })
+
+  it('transforms responses before validating them', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/user').reply(200, { user_name: 'ada' })
+
+    const received: Response[] = []
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      transformResponse: [(response, data) => {
+        received.push(response)
+        return { userName: (data as { user_name: string }).user_name }
+      }],
+    })
+    const { data } = await fetches.get('/user', { validatorSchema: z.object({ userName: z.string() }) })
+
+    expect(data).toEqual({ userName: 'ada' })
+    expect(received[0].bodyUsed).toBe(true)
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesStreamConsumedError, MockAdapter } from '../lib/index.js'
+
+function setup() {
+  const mock = new MockAdapter()
+  mock.onGet('/records').reply(200, '{"id":1}\n{"id":2}\n', { 'Content-Type': 'application/x-ndjson' })
+  return createFetches({ adapter: mock.adapter })
+}
+
+describe('ndjson', () => {
+  it('yields records one at a time', async () => {
+    const { data } = await setup().get('/records', { responseType: 'ndjson' })
+
+    expect(await data.toArray()).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('throws when the stream is consumed twice', async () => {
+    const { data } = await setup().get('/records', { responseType: 'ndjson' })
+    await data.toArray()
+
+    await expect(data.toArray()).rejects.toBeInstanceOf(FetchesStreamConsumedError)
+  })
+})
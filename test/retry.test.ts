@@ -0,0 +1,111 @@
+import type { RetryConfig } from '../lib/index.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createFetches, FetchesNetworkError, FetchesResponseError, MockAdapter } from '../lib/index.js'
+import { computeBackoff, getRetryDelay, isRetryable, parseRetryAfter } from '../lib/retry.js'
+
+const config: RetryConfig = { attempts: 3, backoff: 'exponential', initialDelay: 100 }
+
+function responseError(status: number): FetchesResponseError<unknown> {
+  return new FetchesResponseError(new Response(null, { status }))
+}
+
+describe('retry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('parseRetryAfter', () => {
+    it('reads delays in seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120_000)
+      expect(parseRetryAfter(' 0 ')).toBe(0)
+    })
+
+    it('reads HTTP-dates relative to now', () => {
+      const now = Date.parse('Mon, 19 Oct 2026 07:00:00 GMT')
+
+      expect(parseRetryAfter('Mon, 19 Oct 2026 07:00:30 GMT', now)).toBe(30_000)
+      expect(parseRetryAfter('Mon, 19 Oct 2026 06:59:00 GMT', now)).toBe(0)
+    })
+
+    it('ignores missing and malformed values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+  })
+
+  describe('isRetryable', () => {
+    it('retries the default status codes on idempotent methods', () => {
+      expect(isRetryable(responseError(503), { attempt: 1, method: 'GET' }, config)).toBe(true)
+      expect(isRetryable(responseError(429), { attempt: 1, method: 'PUT' }, config)).toBe(true)
+      expect(isRetryable(responseError(404), { attempt: 1, method: 'GET' }, config)).toBe(false)
+      expect(isRetryable(responseError(503), { attempt: 1, method: 'POST' }, config)).toBe(false)
+      expect(isRetryable(new FetchesNetworkError('offline'), { attempt: 1, method: 'GET' }, config)).toBe(true)
+    })
+
+    it('honours custom status codes and methods', () => {
+      const custom = { ...config, statusCodes: [404], methods: ['POST'] }
+
+      expect(isRetryable(responseError(404), { attempt: 1, method: 'POST' }, custom)).toBe(true)
+      expect(isRetryable(responseError(503), { attempt: 1, method: 'POST' }, custom)).toBe(false)
+      expect(isRetryable(responseError(404), { attempt: 1, method: 'GET' }, custom)).toBe(false)
+    })
+  })
+
+  describe('computeBackoff', () => {
+    it('grows linearly or exponentially up to maxDelay', () => {
+      expect([0, 1, 2].map(attempt => computeBackoff({ ...config, backoff: 'linear' }, attempt, 0))).toEqual([100, 200, 300])
+      expect([0, 1, 2].map(attempt => computeBackoff(config, attempt, 0))).toEqual([100, 200, 400])
+      expect(computeBackoff({ ...config, maxDelay: 250 }, 5, 0)).toBe(250)
+    })
+
+    it('applies full, equal and decorrelated jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5)
+
+      expect(computeBackoff({ ...config, jitter: 'full' }, 2, 0)).toBe(200)
+      expect(computeBackoff({ ...config, jitter: 'equal' }, 2, 0)).toBe(300)
+      // Between the initial delay and three times the previous one.
+      expect(computeBackoff({ ...config, jitter: 'decorrelated' }, 2, 300)).toBe(500)
+      expect(computeBackoff({ ...config, jitter: 'decorrelated', maxDelay: 400 }, 2, 300)).toBe(400)
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    it('prefers Retry-After over the backoff', () => {
+      const response = new Response(null, { status: 503, headers: { 'Retry-After': '2' } })
+
+      expect(getRetryDelay(config, 0, 0, response)).toBe(2000)
+      expect(getRetryDelay({ ...config, respectRetryAfter: false }, 0, 0, response)).toBe(100)
+    })
+
+    it('gives up when Retry-After exceeds maxDelay', () => {
+      const response = new Response(null, { status: 429, headers: { 'Retry-After': '60' } })
+
+      expect(getRetryDelay({ ...config, maxDelay: 1000 }, 0, 0, response)).toBeUndefined()
+    })
+  })
+
+  it('calls onRetry before each retry with its delay', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/flaky').replyOnce(503, 'busy')
+    mock.onGet('/flaky').replyOnce(500, 'boom')
+    mock.onGet('/flaky').reply(200, { ok: true })
+    const retries: Array<{ status?: number, attempt: number, delay: number }> = []
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      retry: {
+        attempts: 3,
+        backoff: 'linear',
+        initialDelay: 1,
+        onRetry: (_error, context) => retries.push({ status: context.response?.status, attempt: context.attempt, delay: context.delay }),
+      },
+    })
+    const { data } = await fetches.get('/flaky')
+
+    expect(data).toEqual({ ok: true })
+    expect(retries).toEqual([
+      { status: 503, attempt: 1, delay: 1 },
+      { status: 500, attempt: 2, delay: 2 },
+    ])
+  })
+})
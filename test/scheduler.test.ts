@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, MockAdapter } from '../lib/index.js'
+
+describe('scheduler', () => {
+  it('frees the slot while a request waits to retry', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/flaky').replyOnce(500, 'boom')
+    mock.onGet('/flaky').reply(200, 'ok')
+    mock.onGet('/other').reply(200, 'ok')
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      scheduler: { maxConcurrency: 1 },
+      retry: { attempts: 2, backoff: 'linear', initialDelay: 50 },
+    })
+    await Promise.all([fetches.get('/flaky'), fetches.get('/other')])
+
+    expect(mock.history.map(request => request.url)).toEqual(['/flaky', '/other', '/flaky'])
+  })
+
+  it('backs off between attempts when the server asks to', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/limited').replyOnce(429, 'slow down', { 'Retry-After': '1' })
+    mock.onGet('/limited').reply(200, 'ok')
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      scheduler: { maxConcurrency: 1 },
+      retry: { attempts: 2, backoff: 'linear', initialDelay: 0, respectRetryAfter: false },
+    })
+    const started = Date.now()
+    await fetches.get('/limited')
+
+    expect(mock.history).toHaveLength(2)
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900)
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesResponseError, MockAdapter } from '../lib/index.js'
+
+function setup() {
+  const mock = new MockAdapter()
+  mock.onGet('/events').reply(200, 'data: one\n\ndata: two\n\n', { 'Content-Type': 'text/event-stream' })
+  mock.onGet('/broken').reply(500, 'boom')
+  mock.onGet('/down').networkError()
+  return { mock, fetches: createFetches({ adapter: mock.adapter }) }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+describe('sse', () => {
+  it('yields parsed events', async () => {
+    const { fetches } = setup()
+    const events = await collect(fetches.sse('/events', { reconnect: false }))
+
+    expect(events.map(event => event.data)).toEqual(['one', 'two'])
+  })
+
+  it('closes the source when onMessage throws', async () => {
+    const { mock, fetches } = setup()
+    const errors: Error[] = []
+    const source = fetches.sse('/events', {
+      onMessage: () => {
+        throw new Error('handler failed')
+      },
+      onError: error => errors.push(error),
+    })
+
+    await expect(collect(source)).rejects.toThrow('handler failed')
+    expect(source.readyState).toBe('closed')
+    expect(errors.map(error => error.message)).toEqual(['handler failed'])
+    expect(mock.history).toHaveLength(1)
+  })
+
+  it('closes the source when onError throws', async () => {
+    const { fetches } = setup()
+    const source = fetches.sse('/broken', {
+      onError: () => {
+        throw new Error('reporter failed')
+      },
+    })
+
+    await expect(collect(source)).rejects.toBeInstanceOf(FetchesResponseError)
+    expect(source.readyState).toBe('closed')
+  })
+
+  it('stops reconnecting when onError throws for a dropped connection', async () => {
+    const { mock, fetches } = setup()
+    const source = fetches.sse('/down', {
+      retryInterval: 0,
+      onError: () => {
+        throw new Error('reporter failed')
+      },
+    })
+
+    await expect(collect(source)).rejects.toThrow('reporter failed')
+    expect(source.readyState).toBe('closed')
+    expect(mock.history).toHaveLength(1)
+  })
+})
@@ -0,0 +1,151 @@
+import type { CacheStorageAdapter } from '../lib/index.js'
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileSystemCacheStorage, IndexedDBCacheStorage, WebStorageCacheStorage } from '../lib/index.js'
+import 'fake-indexeddb/auto'
+
+// A Map-backed implementation of the Web Storage interface.
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>()
+
+  get length(): number {
+    return this.items.size
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value))
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key)
+  }
+
+  clear(): void {
+    this.items.clear()
+  }
+}
+
+async function roundTrip(storage: CacheStorageAdapter<unknown>): Promise<void> {
+  await storage.set('GET https://api.test/a?x=1', { data: 'a' })
+  await storage.set('GET https://api.test/b', { data: 'b' })
+
+  expect(await storage.get('GET https://api.test/a?x=1')).toEqual({ data: 'a' })
+  expect(await storage.get('GET https://api.test/missing')).toBeUndefined()
+  expect((await storage.keys()).sort()).toEqual(['GET https://api.test/a?x=1', 'GET https://api.test/b'])
+
+  await storage.delete('GET https://api.test/a?x=1')
+
+  expect(await storage.get('GET https://api.test/a?x=1')).toBeUndefined()
+  expect(await storage.keys()).toEqual(['GET https://api.test/b'])
+
+  await storage.clear()
+
+  expect(await storage.keys()).toEqual([])
+}
+
+describe('storage', () => {
+  describe('fileSystemCacheStorage', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'fetches-cache-'))
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it('stores, lists and removes entries', async () => {
+      await roundTrip(new FileSystemCacheStorage<unknown>(join(directory, 'cache')))
+    })
+
+    it('reads entries written by another instance', async () => {
+      await new FileSystemCacheStorage<unknown>(directory).set('key', 'value')
+
+      expect(await new FileSystemCacheStorage<unknown>(directory).get('key')).toBe('value')
+    })
+
+    it('skips files it cannot parse', async () => {
+      const storage = new FileSystemCacheStorage<unknown>(directory)
+      await storage.set('key', 'value')
+      await writeFile(join(directory, 'broken.json'), '{')
+
+      expect(await storage.keys()).toEqual(['key'])
+
+      await storage.clear()
+
+      expect(await readdir(directory)).toEqual([])
+    })
+
+    it('treats a missing directory as empty', async () => {
+      const storage = new FileSystemCacheStorage<unknown>(join(directory, 'missing'))
+
+      expect(await storage.get('key')).toBeUndefined()
+      expect(await storage.keys()).toEqual([])
+    })
+  })
+
+  describe('webStorageCacheStorage', () => {
+    it('stores, lists and removes entries', async () => {
+      await roundTrip(new WebStorageCacheStorage<unknown>(new MemoryStorage()))
+    })
+
+    it('only touches keys under its prefix', () => {
+      const backing = new MemoryStorage()
+      backing.setItem('theme', 'dark')
+      const first = new WebStorageCacheStorage<unknown>(backing, 'first:')
+      const second = new WebStorageCacheStorage<unknown>(backing, 'second:')
+      first.set('key', 1)
+      second.set('key', 2)
+
+      first.clear()
+
+      expect(first.keys()).toEqual([])
+      expect(second.get('key')).toBe(2)
+      expect(backing.getItem('theme')).toBe('dark')
+    })
+
+    it('drops entries that are not valid JSON', () => {
+      const backing = new MemoryStorage()
+      backing.setItem('fetches:key', '{')
+      const storage = new WebStorageCacheStorage<unknown>(backing)
+
+      expect(storage.get('key')).toBeUndefined()
+      expect(backing.getItem('fetches:key')).toBeNull()
+    })
+  })
+
+  describe('indexedDBCacheStorage', () => {
+    it('stores, lists and removes entries', async () => {
+      await roundTrip(new IndexedDBCacheStorage<unknown>('round-trip'))
+    })
+
+    it('keeps several stores in one database', async () => {
+      const responses = new IndexedDBCacheStorage<unknown>('shared', 'responses')
+      await responses.set('key', 'response')
+      const uploads = new IndexedDBCacheStorage<unknown>('shared', 'uploads')
+      await uploads.set('key', 'upload')
+
+      expect(await uploads.get('key')).toBe('upload')
+      expect(await responses.get('key')).toBe('response')
+      expect(await new IndexedDBCacheStorage<unknown>('shared', 'responses').get('key')).toBe('response')
+    })
+
+    it('creates stores opened at the same time', async () => {
+      const stores = ['a', 'b', 'c'].map(name => new IndexedDBCacheStorage<unknown>('concurrent', name))
+      await Promise.all(stores.map((store, index) => store.set('key', index)))
+
+      expect(await Promise.all(stores.map(store => store.get('key')))).toEqual([0, 1, 2])
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, FetchesTimeoutError, MockAdapter } from '../lib/index.js'
+
+// A body that sends its first chunk and then stalls.
+function stalledBody(): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('{"partial":'))
+    },
+  })
+}
+
+describe('timeouts', () => {
+  it('fails an attempt that exceeds its timeout', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').timeout()
+
+    const fetches = createFetches({ adapter: mock.adapter, timeout: 20 })
+    const error = await fetches.get('/slow').catch(error => error)
+
+    expect(error).toBeInstanceOf(FetchesTimeoutError)
+    expect(error).toMatchObject({ budget: 'attempt', timeout: 20 })
+  })
+
+  it('gives each retry a fresh attempt timeout', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').timeout()
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      timeout: 10,
+      retry: { attempts: 3, backoff: 'linear', initialDelay: 0 },
+    })
+    const error = await fetches.get('/slow').catch(error => error)
+
+    expect(error).toMatchObject({ budget: 'attempt', attempt: 3 })
+    expect(mock.history).toHaveLength(3)
+  })
+
+  it('caps all attempts with the total timeout', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').timeout()
+
+    const fetches = createFetches({
+      adapter: mock.adapter,
+      timeout: 20,
+      totalTimeout: 50,
+      retry: { attempts: 10, backoff: 'linear', initialDelay: 0 },
+    })
+    const error = await fetches.get('/slow').catch(error => error)
+
+    expect(error).toBeInstanceOf(FetchesTimeoutError)
+    expect(error).toMatchObject({ budget: 'total', timeout: 50 })
+    expect(mock.history.length).toBeLessThan(10)
+  })
+
+  it('fails when response headers do not arrive in time', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').timeout()
+
+    const fetches = createFetches({ adapter: mock.adapter, headersTimeout: 20 })
+    const error = await fetches.get('/slow').catch(error => error)
+
+    expect(error).toBeInstanceOf(FetchesTimeoutError)
+    expect(error).toMatchObject({ budget: 'headers', timeout: 20 })
+  })
+
+  it('fails when the response body does not arrive in time', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').reply(() => ({ body: stalledBody(), headers: { 'Content-Type': 'application/json' } }))
+
+    const fetches = createFetches({ adapter: mock.adapter, headersTimeout: 1000, bodyTimeout: 20 })
+    const error = await fetches.get('/slow').catch(error => error)
+
+    expect(error).toBeInstanceOf(FetchesTimeoutError)
+    expect(error).toMatchObject({ budget: 'body', timeout: 20 })
+  })
+
+  it('still cancels through a caller signal', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/slow').timeout()
+
+    const fetches = createFetches({ adapter: mock.adapter, timeout: 1000, totalTimeout: 1000 })
+    const controller = new AbortController()
+    const request = fetches.get('/slow', { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    const error = await request.catch(error => error)
+
+    expect(error).not.toBeInstanceOf(FetchesTimeoutError)
+    expect(error.cause).toMatchObject({ name: 'AbortError' })
+    expect(mock.history).toHaveLength(1)
+  })
+})
@@ -0,0 +1,163 @@
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Buffer } from 'node:buffer'
+import { createServer } from 'node:http'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createFetches } from '../lib/index.js'
+
+interface StoredUpload {
+  length: number
+  data: Buffer
+}
+
+interface TusServer {
+  endpoint: string
+  uploads: Map<string, StoredUpload>
+  requests: string[]
+  // Runs before a PATCH is stored; may hold it back or fail it.
+  onPatch?: (upload: StoredUpload, body: Buffer, response: ServerResponse) => Promise<boolean> | boolean
+  close: () => Promise<void>
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', chunk => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+// A minimal tus 1.0 server with the creation extension.
+async function startTusServer(): Promise<TusServer> {
+  let nextId = 0
+  const tus: Partial<TusServer> = { uploads: new Map(), requests: [] }
+
+  const server: Server = createServer(async (request, response) => {
+    tus.requests!.push(request.method!)
+    response.setHeader('Tus-Resumable', '1.0.0')
+    const upload = tus.uploads!.get(request.url!)
+
+    if (request.method === 'POST') {
+      const id = `/files/${++nextId}`
+      tus.uploads!.set(id, { length: Number(request.headers['upload-length']), data: Buffer.alloc(0) })
+      response.writeHead(201, { Location: id }).end()
+      return
+    }
+    if (!upload) {
+      response.writeHead(404).end()
+      return
+    }
+    if (request.method === 'HEAD') {
+      response.writeHead(200, { 'Upload-Offset': String(upload.data.length), 'Upload-Length': String(upload.length) }).end()
+      return
+    }
+
+    const body = await readBody(request)
+    if (Number(request.headers['upload-offset']) !== upload.data.length) {
+      response.writeHead(409).end()
+      return
+    }
+    if (tus.onPatch && !(await tus.onPatch(upload, body, response)))
+      return
+
+    upload.data = Buffer.concat([upload.data, body])
+    response.writeHead(204, { 'Upload-Offset': String(upload.data.length) }).end()
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  tus.endpoint = `http://127.0.0.1:${port}/files`
+  tus.close = () => new Promise(resolve => server.close(() => resolve()))
+  return tus as TusServer
+}
+
+describe('resumableUpload', () => {
+  const file = new Blob(['abcdefghijkl'])
+  let tus: TusServer
+
+  beforeEach(async () => {
+    tus = await startTusServer()
+  })
+
+  afterEach(async () => {
+    await tus.close()
+  })
+
+  it('creates the upload and sends it in chunks', async () => {
+    const progress: number[] = []
+    const upload = createFetches().resumableUpload(file, {
+      endpoint: tus.endpoint,
+      chunkSize: 5,
+      onProgress: event => progress.push(event.loaded),
+    })
+
+    await upload.start()
+
+    expect(upload.status).toBe('completed')
+    expect(tus.requests).toEqual(['POST', 'PATCH', 'PATCH', 'PATCH'])
+    expect(tus.uploads.get(new URL(upload.url!).pathname)?.data.toString()).toBe('abcdefghijkl')
+    expect(progress.at(-1)).toBe(12)
+  })
+
+  it('resumes from the server offset when started right after a pause', async () => {
+    let release!: () => void
+    let patched!: () => void
+    const firstPatch = new Promise<void>((resolve) => {
+      patched = resolve
+    })
+
+    // Holds the first chunk until the upload has been paused and resumed.
+    tus.onPatch = async (upload) => {
+      if (upload.data.length > 0)
+        return true
+      tus.onPatch = undefined
+      patched()
+      await new Promise<void>((resolve) => {
+        release = resolve
+      })
+      return true
+    }
+
+    const upload = createFetches().resumableUpload(file, { endpoint: tus.endpoint, chunkSize: 4 })
+    const paused = upload.start()
+    await firstPatch
+
+    upload.pause()
+    const resumed = upload.start()
+    release()
+
+    await paused
+    await resumed
+
+    expect(upload.status).toBe('completed')
+    expect(upload.offset).toBe(12)
+    expect(tus.requests).toContain('HEAD')
+    expect(tus.uploads.get(new URL(upload.url!).pathname)?.data.toString()).toBe('abcdefghijkl')
+  })
+
+  it('reads the offset back with HEAD after a failed chunk', async () => {
+    // Stores half of the second chunk, then fails it.
+    tus.onPatch = (upload, body, response) => {
+      if (upload.data.length !== 4)
+        return true
+      tus.onPatch = undefined
+      upload.data = Buffer.concat([upload.data, body.subarray(0, 2)])
+      response.writeHead(500).end()
+      return false
+    }
+
+    const upload = createFetches().resumableUpload(file, {
+      endpoint: tus.endpoint,
+      chunkSize: 4,
+      retry: { attempts: 2, backoff: 'linear', initialDelay: 0 },
+    })
+
+    await upload.start()
+
+    expect(upload.status).toBe('completed')
+    expect(tus.requests).toEqual(['POST', 'PATCH', 'PATCH', 'HEAD', 'PATCH', 'PATCH'])
+    expect(tus.uploads.get(new URL(upload.url!).pathname)?.data.toString()).toBe('abcdefghijkl')
+  })
+})
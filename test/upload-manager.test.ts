@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import { createFetches, MockAdapter, UploadManager } from '../lib/index.js'
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function waitForIdle(manager: UploadManager): Promise<void> {
+  return new Promise((resolve) => {
+    const off = manager.on('idle', () => {
+      off()
+      resolve()
+    })
+  })
+}
+
+function createFile(name: string, size = 8): File {
+  return new File(['x'.repeat(size)], name)
+}
+
+describe('uploadManager', () => {
+  it('keeps a file resumed right after a pause uploading', async () => {
+    const mock = new MockAdapter()
+    mock.onPost('/upload').delay(30).reply(201, { ok: true })
+
+    const manager = new UploadManager(createFetches({ adapter: mock.adapter }), { url: '/upload' })
+    const statuses: string[] = []
+    manager.on('statusChange', item => statuses.push(item.status))
+    const [item] = manager.add(createFile('a.txt'))
+    await sleep(5)
+
+    // The first attempt is still settling its abort when the second starts.
+    manager.pause(item.id)
+    manager.resume(item.id)
+    await sleep(5)
+
+    expect(item.status).toBe('uploading')
+
+    // Pausing again must reach the controller of the running attempt.
+    manager.pause(item.id)
+    await sleep(50)
+
+    expect(item.status).toBe('paused')
+    expect(item.response).toBeUndefined()
+    expect(statuses).not.toContain('failed')
+
+    const idle = waitForIdle(manager)
+    manager.resume(item.id)
+    await idle
+
+    expect(item.status).toBe('done')
+    expect(mock.history).toHaveLength(3)
+  })
+
+  it('runs at most `concurrency` uploads at a time, in order', async () => {
+    const mock = new MockAdapter()
+    const started: string[] = []
+    let running = 0
+    let maxRunning = 0
+    mock.onPost('/upload').reply(async (request) => {
+      // Bodies are streamed for progress, so the multipart text arrives here.
+      started.push(/filename="(.+?)"/.exec(String(request.body))![1])
+      maxRunning = Math.max(maxRunning, ++running)
+      await sleep(10)
+      running--
+      return { status: 201 }
+    })
+
+    const manager = new UploadManager(createFetches({ adapter: mock.adapter }), { url: '/upload', concurrency: 2 })
+    const idle = waitForIdle(manager)
+    manager.add(['1', '2', '3', '4', '5'].map(name => createFile(name)))
+    await idle
+
+    expect(maxRunning).toBe(2)
+    expect(started).toEqual(['1', '2', '3', '4', '5'])
+    expect(manager.items.map(item => item.status)).toEqual(['done', 'done', 'done', 'done', 'done'])
+  })
+
+  it('cancels a single file without affecting the others', async () => {
+    const mock = new MockAdapter()
+    mock.onPost('/upload').delay(20).reply(201)
+
+    const manager = new UploadManager(createFetches({ adapter: mock.adapter }), { url: '/upload' })
+    const removed: string[] = []
+    manager.on('remove', item => removed.push(item.id))
+    const idle = waitForIdle(manager)
+    const [first, second] = manager.add([createFile('a.txt'), createFile('b.txt')])
+    await sleep(5)
+    manager.cancel(first.id)
+    await idle
+
+    expect(removed).toEqual([first.id])
+    expect(manager.get(first.id)).toBeUndefined()
+    expect(first.status).toBe('uploading')
+    expect(second.status).toBe('done')
+  })
+
+  it('retries a failed file on request', async () => {
+    const mock = new MockAdapter()
+    mock.onPost('/upload').replyOnce(500, 'boom')
+    mock.onPost('/upload').reply(201, { ok: true })
+
+    const manager = new UploadManager(createFetches({ adapter: mock.adapter }), { url: '/upload', retry: false })
+    let idle = waitForIdle(manager)
+    const [item] = manager.add(createFile('a.txt'))
+    await idle
+
+    expect(item.status).toBe('failed')
+    expect(item.error).toBeDefined()
+
+    idle = waitForIdle(manager)
+    manager.retry(item.id)
+    await idle
+
+    expect(item.status).toBe('done')
+    expect(item.error).toBeUndefined()
+    expect(item.response?.data).toEqual({ ok: true })
+  })
+
+  it('reports overall progress across files', async () => {
+    const mock = new MockAdapter()
+    mock.onPost('/upload').reply(201)
+
+    const manager = new UploadManager(createFetches({ adapter: mock.adapter }), { url: '/upload', concurrency: 1 })
+    const overall: number[] = []
+    manager.on('progress', event => overall.push(event.overall.loaded))
+    const idle = waitForIdle(manager)
+    manager.add([createFile('a.txt', 4), createFile('b.txt', 6)])
+    await idle
+
+    expect(manager.progress).toMatchObject({ loaded: 10, total: 10, progress: 1 })
+    expect(overall).toEqual([...overall].sort((a, b) => a - b))
+    expect(overall.at(-1)).toBe(10)
+  })
+})
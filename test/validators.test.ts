@@ -0,0 +1,113 @@
+import type { StandardSchemaV1, ValidatorAdapter } from '../lib/index.js'
+import * as t from 'io-ts'
+import Joi from 'joi'
+import * as runtypes from 'runtypes'
+import { afterEach, describe, expect, it } from 'vitest'
+import * as yup from 'yup'
+import { z } from 'zod'
+import { createFetches, FetchesValidationError, MockAdapter, registerValidator, unregisterValidator } from '../lib/index.js'
+import {
+  IoTsValidatorAdapter,
+  JoiValidatorAdapter,
+  RuntimesValidatorAdapter,
+  StandardSchemaValidatorAdapter,
+  ValidatorFactory,
+  YupValidatorAdapter,
+  ZodValidatorAdapter,
+} from '../lib/validators/index.js'
+
+// A minimal Standard Schema that accepts strings only.
+const standardString: StandardSchemaV1<string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => typeof value === 'string'
+      ? { value }
+      : { issues: [{ message: 'Expected a string', path: [{ key: 'name' }] }] },
+  },
+}
+
+describe('validators', () => {
+  afterEach(() => {
+    unregisterValidator('custom')
+  })
+
+  it('detects the library of each schema', async () => {
+    const detected = await Promise.all([
+      z.string(),
+      yup.string(),
+      Joi.string(),
+      runtypes.String,
+      t.string,
+      standardString,
+    ].map(schema => ValidatorFactory.createValidator(schema)))
+
+    expect(detected.map(adapter => adapter.constructor)).toEqual([
+      ZodValidatorAdapter,
+      YupValidatorAdapter,
+      JoiValidatorAdapter,
+      RuntimesValidatorAdapter,
+      IoTsValidatorAdapter,
+      StandardSchemaValidatorAdapter,
+    ])
+  })
+
+  it('prefers the zod adapter over Standard Schema for zod schemas', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/user').reply(200, { name: 42 })
+
+    const fetches = createFetches({ adapter: mock.adapter })
+    const error = await fetches.get('/user', { validatorSchema: z.object({ name: z.string() }) }).catch(error => error)
+
+    expect('~standard' in z.string()).toBe(true)
+    expect(error).toBeInstanceOf(FetchesValidationError)
+    // Only the zod adapter reports issue codes.
+    expect(error.issues[0]).toMatchObject({ path: ['name'], code: 'invalid_type' })
+  })
+
+  it('validates Standard Schemas', async () => {
+    const mock = new MockAdapter()
+    mock.onGet('/name').replyOnce(200, 'ada')
+    mock.onGet('/name').reply(200, { name: 42 })
+
+    const fetches = createFetches({ adapter: mock.adapter, cache: { enabled: false, ttl: 0 } })
+    const { data } = await fetches.get('/name', { responseType: 'text', validatorSchema: standardString })
+    const error = await fetches.get('/name', { validatorSchema: standardString }).catch(error => error)
+
+    expect(data).toBe('ada')
+    expect(error).toBeInstanceOf(FetchesValidationError)
+    expect(error.issues).toEqual([{ path: ['name'], message: 'Expected a string' }])
+  })
+
+  it('checks registered adapters first and forgets them when unregistered', async () => {
+    const adapter: ValidatorAdapter<unknown, unknown> = { validate: data => data }
+    registerValidator('custom', adapter, schema => schema === standardString)
+
+    expect(await ValidatorFactory.createValidator(standardString)).toBe(adapter)
+    expect(await ValidatorFactory.createValidator(null, 'custom')).toBe(adapter)
+
+    unregisterValidator('custom')
+
+    expect(await ValidatorFactory.createValidator(standardString)).toBeInstanceOf(StandardSchemaValidatorAdapter)
+    await expect(ValidatorFactory.createValidator(null, 'custom')).rejects.toThrow('Unsupported validator type: custom')
+  })
+
+  it('retries an adapter whose import failed', async () => {
+    const adapter: ValidatorAdapter<unknown, unknown> = { validate: data => data }
+    let loads = 0
+    registerValidator('custom', async () => {
+      if (++loads === 1)
+        throw new Error('Failed to fetch dynamically imported module')
+      return adapter
+    })
+
+    await expect(ValidatorFactory.createValidator(null, 'custom')).rejects.toThrow('Failed to fetch')
+    expect(await ValidatorFactory.createValidator(null, 'custom')).toBe(adapter)
+    expect(await ValidatorFactory.createValidator(null, 'custom')).toBe(adapter)
+    expect(loads).toBe(2)
+  })
+
+  it('rejects schemas no adapter recognises', async () => {
+    await expect(ValidatorFactory.createValidator({})).rejects.toThrow('Could not detect the validator')
+  })
+})